@@ -0,0 +1,466 @@
+import type {
+  PlaylistPlaybackReply,
+  PlaylistsReply,
+  RemoteEvent,
+  ReplyError,
+  SoundboardPlaybackReply,
+  SoundboardsReply,
+} from "../../../src/types/player";
+import type {
+  InputsReply,
+  NowPlaying,
+  OutputsReply,
+  StatusReply,
+  TabReply,
+  TabsReply,
+} from "../../../src/types/remote";
+import type {
+  BatchReplyType,
+  BatchStepType,
+} from "../../../src/main/remote/batch";
+import type { ImageQueryType } from "../../../src/main/remote/image";
+import type { ImportJobType } from "../../../src/main/remote/routes/jobs";
+import type { StopAllRequestType } from "../../../src/main/remote/routes/master/stopAll";
+import type {
+  AddPlaylistRequestType,
+  AddTrackRequestType,
+  EditPlaylistRequestType,
+  EditTrackRequestType,
+  IDReplyType,
+  PlaylistType,
+  TrackType,
+} from "../../../src/main/remote/routes/playlist/edit";
+import type { ImportRequestType } from "../../../src/main/remote/routes/playlist/import";
+import type { RepeatRequestType } from "../../../src/main/remote/routes/playlist/playback";
+import type { QueueType } from "../../../src/main/remote/routes/playlist/queue";
+import type { PlayIDRequestType as SoundPlayRequestType } from "../../../src/main/remote/routes/soundboard/play";
+import type { SoundPlaybackType } from "../../../src/main/remote/routes/soundboard/playback";
+import type {
+  AddSoundboardRequestType,
+  AddSoundsRequestType,
+  EditSoundboardRequestType,
+  EditSoundRequestType,
+  SoundboardType,
+  SoundType,
+} from "../../../src/main/remote/routes/soundboard/edit";
+import { RemoteError } from "./RemoteError";
+
+export interface KenkuRemoteOptions {
+  /** Address of Kenku Remote, defaults to `http://127.0.0.1:3333` */
+  url?: string;
+  /** API key to use when `Require API Key` is enabled in settings */
+  apiKey?: string;
+  /** Fetch implementation, defaults to the global `fetch` */
+  fetch?: typeof fetch;
+}
+
+export interface BatchOptions {
+  /** Keep running steps after one fails */
+  continueOnError?: boolean;
+}
+
+export type SoundPlayOptions = Omit<SoundPlayRequestType, "id">;
+
+export type ImageOptions = ImageQueryType;
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Encode a path parameter */
+function param(value: string | number) {
+  return encodeURIComponent(String(value));
+}
+
+function parseJSON(text: string): unknown {
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Create an error from a failed response, falling back to its status */
+function getRemoteError(response: Response, text: string, payload: unknown) {
+  const reply = payload as Partial<ReplyError> | undefined;
+  return new RemoteError({
+    statusCode: reply?.statusCode ?? response.status,
+    error: reply?.error ?? response.statusText,
+    message: reply?.message ?? (text || response.statusText),
+  });
+}
+
+/**
+ * Client for the Kenku Remote API
+ * Errors replied by Kenku FM are thrown as a `RemoteError`
+ */
+export class KenkuRemote {
+  url: string;
+  apiKey?: string;
+  _fetch: typeof fetch;
+
+  constructor(options: KenkuRemoteOptions = {}) {
+    this.url = (options.url || "http://127.0.0.1:3333").replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this._fetch = options.fetch || fetch.bind(globalThis);
+  }
+
+  async request<T>(method: Method, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    const response = await this._fetch(`${this.url}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    const payload = parseJSON(text);
+    if (!response.ok) {
+      throw getRemoteError(response, text, payload);
+    }
+    return payload as T;
+  }
+
+  /**
+   * Get the url of an image
+   * The API key is added to the query so the url can be used as an image source
+   */
+  imageURL(path: string, options: ImageOptions = {}) {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) {
+        query.set(key, String(value));
+      }
+    }
+    if (this.apiKey) {
+      query.set("token", this.apiKey);
+    }
+    const search = query.toString();
+    return `${this.url}${path}${search ? `?${search}` : ""}`;
+  }
+
+  async image(path: string, options: ImageOptions = {}): Promise<Blob> {
+    const response = await this._fetch(this.imageURL(path, options));
+    if (!response.ok) {
+      const text = await response.text();
+      throw getRemoteError(response, text, parseJSON(text));
+    }
+    return response.blob();
+  }
+
+  /** Get the state of Kenku FM */
+  status() {
+    return this.request<StatusReply>("GET", "/v1/status");
+  }
+
+  /**
+   * Run multiple requests in order with optional delays between them
+   * Every step is validated before any are run
+   */
+  batch(steps: BatchStepType[], options: BatchOptions = {}) {
+    return this.request<BatchReplyType>("POST", "/v1/batch", {
+      ...options,
+      steps,
+    });
+  }
+
+  readonly playlist = {
+    getAll: () => this.request<PlaylistsReply>("GET", "/v1/playlist"),
+    play: (id: string) =>
+      this.request<{ id: string }>("PUT", "/v1/playlist/play", { id }),
+    add: (playlist: AddPlaylistRequestType) =>
+      this.request<PlaylistType>("POST", "/v1/playlist", playlist),
+    edit: (id: string, changes: EditPlaylistRequestType) =>
+      this.request<PlaylistType>("PATCH", `/v1/playlist/${param(id)}`, changes),
+    remove: (id: string) =>
+      this.request<IDReplyType>("DELETE", `/v1/playlist/${param(id)}`),
+    /** Move a playlist in front of the playlist `over` */
+    move: (id: string, over: string) =>
+      this.request<IDReplyType>("PUT", `/v1/playlist/${param(id)}/move`, {
+        over,
+      }),
+    addTrack: (id: string, track: AddTrackRequestType) =>
+      this.request<TrackType>(
+        "POST",
+        `/v1/playlist/${param(id)}/tracks`,
+        track
+      ),
+    editTrack: (id: string, trackId: string, changes: EditTrackRequestType) =>
+      this.request<TrackType>(
+        "PATCH",
+        `/v1/playlist/${param(id)}/tracks/${param(trackId)}`,
+        changes
+      ),
+    removeTrack: (id: string, trackId: string) =>
+      this.request<IDReplyType>(
+        "DELETE",
+        `/v1/playlist/${param(id)}/tracks/${param(trackId)}`
+      ),
+    /** Move a track in front of the track `over` */
+    moveTrack: (id: string, trackId: string, over: string) =>
+      this.request<PlaylistType>(
+        "PUT",
+        `/v1/playlist/${param(id)}/tracks/${param(trackId)}/move`,
+        { over }
+      ),
+    /** Start importing a track, use `jobs` to follow its progress */
+    importTrack: (id: string, track: ImportRequestType) =>
+      this.request<ImportJobType>(
+        "POST",
+        `/v1/playlist/${param(id)}/import`,
+        track
+      ),
+    image: (id: string, options?: ImageOptions) =>
+      this.image(`/v1/playlist/${param(id)}/image`, options),
+    imageURL: (id: string, options?: ImageOptions) =>
+      this.imageURL(`/v1/playlist/${param(id)}/image`, options),
+  };
+
+  readonly playlistPlayback = {
+    get: () =>
+      this.request<PlaylistPlaybackReply>("GET", "/v1/playlist/playback"),
+    play: () => this.request<{}>("PUT", "/v1/playlist/playback/play"),
+    pause: () => this.request<{}>("PUT", "/v1/playlist/playback/pause"),
+    next: () => this.request<{}>("POST", "/v1/playlist/playback/next"),
+    previous: () => this.request<{}>("POST", "/v1/playlist/playback/previous"),
+    mute: (mute: boolean) =>
+      this.request<{ mute: boolean }>("PUT", "/v1/playlist/playback/mute", {
+        mute,
+      }),
+    volume: (volume: number) =>
+      this.request<{ volume: number }>(
+        "PUT",
+        "/v1/playlist/playback/volume",
+        { volume }
+      ),
+    /** Seek the playing track to a time in seconds */
+    seek: (to: number) =>
+      this.request<{ to: number }>("PUT", "/v1/playlist/playback/seek", {
+        to,
+      }),
+    repeat: (repeat: RepeatRequestType["repeat"]) =>
+      this.request<RepeatRequestType>("PUT", "/v1/playlist/playback/repeat", {
+        repeat,
+      }),
+    shuffle: (shuffle: boolean) =>
+      this.request<{ shuffle: boolean }>(
+        "PUT",
+        "/v1/playlist/playback/shuffle",
+        { shuffle }
+      ),
+  };
+
+  readonly queue = {
+    get: () => this.request<QueueType>("GET", "/v1/playlist/queue"),
+    /** Move a track from the playing playlist to the end of the queue */
+    add: (trackId: string) =>
+      this.request<QueueType>("POST", "/v1/playlist/queue", { id: trackId }),
+    /** Move a track from the playing playlist after the current track */
+    playNext: (trackId: string) =>
+      this.request<QueueType>("POST", "/v1/playlist/queue/next", {
+        id: trackId,
+      }),
+    remove: (trackId: string) =>
+      this.request<QueueType>(
+        "DELETE",
+        `/v1/playlist/queue/${param(trackId)}`
+      ),
+    /** Play the track at an index of the queue */
+    jump: (index: number) =>
+      this.request<QueueType>("PUT", "/v1/playlist/queue/jump", { index }),
+  };
+
+  readonly soundboard = {
+    getAll: () => this.request<SoundboardsReply>("GET", "/v1/soundboard"),
+    /** Play a sound with optional overrides that aren't saved */
+    play: (id: string, options: SoundPlayOptions = {}) =>
+      this.request<SoundPlayRequestType>("PUT", "/v1/soundboard/play", {
+        id,
+        ...options,
+      }),
+    stop: (id: string) =>
+      this.request<{ id: string }>("PUT", "/v1/soundboard/stop", { id }),
+    add: (soundboard: AddSoundboardRequestType) =>
+      this.request<SoundboardType>("POST", "/v1/soundboard", soundboard),
+    edit: (id: string, changes: EditSoundboardRequestType) =>
+      this.request<SoundboardType>(
+        "PATCH",
+        `/v1/soundboard/${param(id)}`,
+        changes
+      ),
+    remove: (id: string) =>
+      this.request<IDReplyType>("DELETE", `/v1/soundboard/${param(id)}`),
+    /** Move a soundboard in front of the soundboard `over` */
+    move: (id: string, over: string) =>
+      this.request<IDReplyType>("PUT", `/v1/soundboard/${param(id)}/move`, {
+        over,
+      }),
+    addSounds: (id: string, sounds: AddSoundsRequestType) =>
+      this.request<SoundType[]>(
+        "POST",
+        `/v1/soundboard/${param(id)}/sounds`,
+        sounds
+      ),
+    editSound: (id: string, soundId: string, changes: EditSoundRequestType) =>
+      this.request<SoundType>(
+        "PATCH",
+        `/v1/soundboard/${param(id)}/sounds/${param(soundId)}`,
+        changes
+      ),
+    removeSound: (id: string, soundId: string) =>
+      this.request<IDReplyType>(
+        "DELETE",
+        `/v1/soundboard/${param(id)}/sounds/${param(soundId)}`
+      ),
+    /** Move a sound in front of the sound `over` */
+    moveSound: (id: string, soundId: string, over: string) =>
+      this.request<SoundboardType>(
+        "PUT",
+        `/v1/soundboard/${param(id)}/sounds/${param(soundId)}/move`,
+        { over }
+      ),
+    image: (id: string, options?: ImageOptions) =>
+      this.image(`/v1/soundboard/${param(id)}/image`, options),
+    imageURL: (id: string, options?: ImageOptions) =>
+      this.imageURL(`/v1/soundboard/${param(id)}/image`, options),
+  };
+
+  /** Changes to playing sounds that aren't saved to the soundboard */
+  readonly soundboardPlayback = {
+    get: () =>
+      this.request<SoundboardPlaybackReply>("GET", "/v1/soundboard/playback"),
+    volume: (id: string, volume: number) =>
+      this.request<SoundPlaybackType>(
+        "PUT",
+        `/v1/soundboard/playback/${param(id)}/volume`,
+        { volume }
+      ),
+    /** Seek a playing sound to a time in seconds */
+    seek: (id: string, to: number) =>
+      this.request<SoundPlaybackType>(
+        "PUT",
+        `/v1/soundboard/playback/${param(id)}/seek`,
+        { to }
+      ),
+    loop: (id: string, loop: boolean) =>
+      this.request<SoundPlaybackType>(
+        "PUT",
+        `/v1/soundboard/playback/${param(id)}/loop`,
+        { loop }
+      ),
+  };
+
+  readonly master = {
+    volume: (volume: number) =>
+      this.request<{ volume: number }>("PUT", "/v1/master/volume", { volume }),
+    /** Fade out the playlist and all soundboard sounds */
+    stopAll: (options: Partial<StopAllRequestType> = {}) =>
+      this.request<StopAllRequestType>("POST", "/v1/stop-all", options),
+  };
+
+  readonly output = {
+    get: () => this.request<OutputsReply>("GET", "/v1/output"),
+    /** Select a Discord voice channel or `local` */
+    select: (id: string) =>
+      this.request<OutputsReply>("POST", `/v1/output/${param(id)}`),
+    deselect: (id: string) =>
+      this.request<OutputsReply>("DELETE", `/v1/output/${param(id)}`),
+  };
+
+  readonly input = {
+    get: () => this.request<InputsReply>("GET", "/v1/input"),
+    start: (id: string) =>
+      this.request<InputsReply>("POST", `/v1/input/${param(id)}`),
+    stop: (id: string) =>
+      this.request<InputsReply>("DELETE", `/v1/input/${param(id)}`),
+  };
+
+  readonly tabs = {
+    get: () => this.request<TabsReply>("GET", "/v1/tabs"),
+    open: (url: string) => this.request<TabReply>("POST", "/v1/tabs", { url }),
+    close: (id: number) =>
+      this.request<{ id: number }>("DELETE", `/v1/tabs/${param(id)}`),
+    mute: (id: number, mute: boolean) =>
+      this.request<TabReply>("PUT", `/v1/tabs/${param(id)}/mute`, { mute }),
+  };
+
+  readonly jobs = {
+    get: (id: string) =>
+      this.request<ImportJobType>("GET", `/v1/jobs/${param(id)}`),
+    cancel: (id: string) =>
+      this.request<ImportJobType>("DELETE", `/v1/jobs/${param(id)}`),
+  };
+
+  readonly nowPlaying = {
+    get: () => this.request<NowPlaying>("GET", "/v1/now-playing"),
+    /** Url of the overlay page to use as a browser source */
+    overlayURL: () =>
+      this.apiKey
+        ? `${this.url}/overlay?token=${encodeURIComponent(this.apiKey)}`
+        : `${this.url}/overlay`,
+  };
+
+  /**
+   * Listen to playback changes from the event stream
+   * @returns A function to stop listening
+   */
+  subscribe(
+    listener: (event: RemoteEvent) => void,
+    onError?: (error: Error) => void
+  ) {
+    const controller = new AbortController();
+    this._readEvents(listener, controller.signal).catch((error: Error) => {
+      if (!controller.signal.aborted) {
+        onError?.(error);
+      }
+    });
+    return () => controller.abort();
+  }
+
+  async _readEvents(
+    listener: (event: RemoteEvent) => void,
+    signal: AbortSignal
+  ) {
+    const headers: Record<string, string> = { Accept: "text/event-stream" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    const response = await this._fetch(`${this.url}/v1/events`, {
+      headers,
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new RemoteError({
+        statusCode: response.status,
+        error: response.statusText,
+        message: "Unable to open the event stream",
+      });
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      // Events are separated by a blank line
+      const messages = buffer.split("\n\n");
+      buffer = messages.pop() || "";
+      for (const message of messages) {
+        const data = message
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice("data:".length).trim())
+          .join("\n");
+        if (data) {
+          listener(JSON.parse(data));
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import type { ReplyError } from "../../../src/types/player";
+
+/** Error replied by Kenku Remote */
+export class RemoteError extends Error {
+  statusCode: number;
+  error: string;
+  reply: ReplyError;
+
+  constructor(reply: ReplyError) {
+    super(reply.message);
+    // Restore the prototype chain so `instanceof` works when targeting ES5
+    Object.setPrototypeOf(this, RemoteError.prototype);
+    this.name = "RemoteError";
+    this.statusCode = reply.statusCode;
+    this.error = reply.error;
+    this.reply = reply;
+  }
+}
@@ -0,0 +1,30 @@
+export { KenkuRemote } from "./KenkuRemote";
+export type {
+  BatchOptions,
+  ImageOptions,
+  KenkuRemoteOptions,
+  SoundPlayOptions,
+} from "./KenkuRemote";
+export { RemoteError } from "./RemoteError";
+export type {
+  BatchReplyType as BatchReply,
+  BatchStepType as BatchStep,
+} from "../../../src/main/remote/batch";
+export type { ImportJobType as ImportJob } from "../../../src/main/remote/routes/jobs";
+export type {
+  PlaylistPlaybackReply,
+  PlaylistQueueReply,
+  PlaylistsReply,
+  RemoteEvent,
+  ReplyError,
+  SoundboardPlaybackReply,
+  SoundboardsReply,
+} from "../../../src/types/player";
+export type {
+  InputsReply,
+  NowPlaying,
+  OutputsReply,
+  StatusReply,
+  TabReply,
+  TabsReply,
+} from "../../../src/types/remote";
@@ -0,0 +1,162 @@
+import {
+  Collection,
+  Interaction,
+  PermissionFlagsBits,
+  PermissionsBitField,
+} from "discord.js";
+import { BrowserWindow } from "electron";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DiscordBroadcast } from "./DiscordBroadcast";
+
+vi.mock("electron", () => ({ ipcMain: { on: vi.fn(), off: vi.fn() } }));
+
+type Member = { roles: { id: string; name: string }[]; admin?: boolean };
+
+/** Create a `/kenku` interaction from a member of a guild */
+function getInteraction(member: Member, autocomplete = false) {
+  return {
+    commandName: "kenku",
+    isChatInputCommand: () => !autocomplete,
+    isAutocomplete: () => autocomplete,
+    inCachedGuild: () => true,
+    memberPermissions: new PermissionsBitField(
+      member.admin ? PermissionFlagsBits.ManageGuild : []
+    ),
+    member: {
+      roles: {
+        cache: new Collection(member.roles.map((role) => [role.id, role])),
+      },
+    },
+    options: {
+      data: [{ options: [{ name: "playlist", value: "Forest" }] }],
+      getSubcommand: () => "play",
+      getFocused: () => ({ name: "playlist", value: "For" }),
+    },
+    reply: vi.fn(async () => undefined),
+    deferReply: vi.fn(async () => undefined),
+    editReply: vi.fn(async () => undefined),
+    respond: vi.fn(async () => undefined),
+  };
+}
+
+describe("DiscordBroadcast commands", () => {
+  let discord: DiscordBroadcast;
+
+  beforeEach(() => {
+    discord = new DiscordBroadcast({} as BrowserWindow);
+    discord.commandsEnabled = true;
+  });
+
+  async function run(interaction: ReturnType<typeof getInteraction>) {
+    const command = vi.fn();
+    const autocomplete = vi.fn();
+    discord.on("command", command);
+    discord.on("autocomplete", autocomplete);
+    await discord._handleInteraction(interaction as unknown as Interaction);
+    return { command, autocomplete };
+  }
+
+  it("runs commands from members who can manage the server", async () => {
+    const interaction = getInteraction({ roles: [], admin: true });
+    const { command } = await run(interaction);
+    expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+    expect(command).toHaveBeenCalledWith(
+      { name: "play", options: { playlist: "Forest" } },
+      expect.any(Function)
+    );
+  });
+
+  it("refuses commands from other members without a role", async () => {
+    const interaction = getInteraction({ roles: [] });
+    const { command } = await run(interaction);
+    expect(command).not.toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: "You don't have permission to control Kenku FM",
+      ephemeral: true,
+    });
+  });
+
+  it("runs commands from members with the role id", async () => {
+    discord.commandRole = "123";
+    const { command } = await run(
+      getInteraction({ roles: [{ id: "123", name: "DJ" }] })
+    );
+    expect(command).toHaveBeenCalled();
+  });
+
+  it("doesn't match the role by name", async () => {
+    discord.commandRole = "DJ";
+    const interaction = getInteraction({
+      roles: [{ id: "456", name: "DJ" }],
+      admin: true,
+    });
+    const { command } = await run(interaction);
+    expect(command).not.toHaveBeenCalled();
+    expect(interaction.reply).toHaveBeenCalled();
+  });
+
+  it("only autocompletes for allowed members", async () => {
+    discord.commandRole = "123";
+    const denied = getInteraction({ roles: [] }, true);
+    const { autocomplete } = await run(denied);
+    expect(autocomplete).not.toHaveBeenCalled();
+    expect(denied.respond).toHaveBeenCalledWith([]);
+
+    const allowed = getInteraction(
+      { roles: [{ id: "123", name: "DJ" }] },
+      true
+    );
+    const result = await run(allowed);
+    expect(result.autocomplete).toHaveBeenCalledWith(
+      { name: "playlist", value: "For" },
+      expect.any(Function)
+    );
+  });
+
+  it("ignores commands when disabled", async () => {
+    discord.commandsEnabled = false;
+    const interaction = getInteraction({ roles: [], admin: true });
+    const { command } = await run(interaction);
+    expect(command).not.toHaveBeenCalled();
+    expect(interaction.reply).not.toHaveBeenCalled();
+  });
+});
+
+describe("DiscordBroadcast channels", () => {
+  let discord: DiscordBroadcast;
+  let send: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    send = vi.fn();
+    discord = new DiscordBroadcast({
+      webContents: { send },
+    } as unknown as BrowserWindow);
+    discord.client = {
+      channels: { fetch: vi.fn().mockRejectedValue(new Error("Gone")) },
+    } as unknown as DiscordBroadcast["client"];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("leaves the channel when fetching it to join fails", async () => {
+    discord._handleJoinChannel({} as Electron.IpcMainEvent, "1");
+    await vi.waitFor(() => {
+      expect(send).toHaveBeenCalledWith("DISCORD_CHANNEL_LEFT", "1");
+    });
+    expect(send).toHaveBeenCalledWith(
+      "ERROR",
+      "Error joining voice channel: Gone"
+    );
+  });
+
+  it("reports an error when fetching the channel to leave fails", async () => {
+    discord._handleLeaveChannel({} as Electron.IpcMainEvent, "1");
+    await vi.waitFor(() => {
+      expect(send).toHaveBeenCalledWith(
+        "ERROR",
+        "Error leaving voice channel: Gone"
+      );
+    });
+    expect(send).toHaveBeenCalledWith("DISCORD_CHANNEL_LEFT", "1");
+  });
+});
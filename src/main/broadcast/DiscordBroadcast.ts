@@ -1,15 +1,45 @@
 import { BrowserWindow, ipcMain } from "electron";
-import { ChannelType, Client, Events, GatewayIntentBits } from "discord.js";
+import { TypedEmitter } from "tiny-typed-emitter";
+import {
+  AutocompleteInteraction,
+  ChannelType,
+  ChatInputCommandInteraction,
+  Client,
+  DiscordjsErrorCodes,
+  Events,
+  GatewayIntentBits,
+  Guild as DiscordGuild,
+  GuildBasedChannel,
+  Interaction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  Status,
+  VoiceBasedChannel,
+  VoiceState,
+} from "discord.js";
 import {
   createAudioPlayer,
+  entersState,
   getVoiceConnection,
+  getVoiceConnections,
   joinVoiceChannel,
   NoSubscriberBehavior,
+  VoiceConnection,
+  VoiceConnectionDisconnectReason,
+  VoiceConnectionState,
+  VoiceConnectionStatus,
 } from "@discordjs/voice";
+import { StageStatus } from "../../types/discord";
 
 type VoiceChannel = {
   id: string;
   name: string;
+  /** Whether this is a Stage channel where the bot needs to be a speaker */
+  stage: boolean;
+  canConnect: boolean;
+  canSpeak: boolean;
+  /** Whether the channel is at its user limit so the bot can't join */
+  full: boolean;
 };
 
 type Guild = {
@@ -19,7 +49,171 @@ type Guild = {
   voiceChannels: VoiceChannel[];
 };
 
-export class DiscordBroadcast {
+export type BroadcastChannel = {
+  id: string;
+  name: string;
+  guildId: string;
+  guildName: string;
+};
+
+/** Subcommand of `/kenku` with its options */
+export type DiscordCommand = {
+  name: string;
+  options: Record<string, string | number | boolean>;
+};
+
+export type DiscordCommandChoice = {
+  name: string;
+  value: string;
+};
+
+interface DiscordBroadcastEvents {
+  channelJoin: (channel: BroadcastChannel) => void;
+  channelLeave: (channel: BroadcastChannel) => void;
+  errorMessage: (message: string) => void;
+  command: (command: DiscordCommand, reply: (message: string) => void) => void;
+  autocomplete: (
+    focused: { name: string; value: string },
+    respond: (choices: DiscordCommandChoice[]) => void
+  ) => void;
+}
+
+const COMMAND_NAME = "kenku";
+
+/** First delay before reconnecting to the gateway, doubled every attempt */
+const GATEWAY_RETRY_DELAY = 1000;
+const GATEWAY_MAX_RETRY_DELAY = 60000;
+/** Login errors that won't be fixed by trying again */
+const FATAL_LOGIN_ERRORS: string[] = [
+  DiscordjsErrorCodes.TokenInvalid,
+  DiscordjsErrorCodes.TokenMissing,
+  DiscordjsErrorCodes.DisallowedIntents,
+];
+
+/** First delay before rejoining a voice channel, doubled every attempt */
+const VOICE_RETRY_DELAY = 1000;
+const VOICE_MAX_RETRY_DELAY = 30000;
+/** Give up on a voice channel after this many failed rejoins */
+const VOICE_MAX_REJOIN_ATTEMPTS = 5;
+/** Time allowed for a voice connection to become ready */
+const VOICE_READY_TIMEOUT = 20000;
+/** Time to wait for Discord to move us after closing with code 4014 */
+const VOICE_MOVE_TIMEOUT = 5000;
+
+function getRetryDelay(attempt: number, baseDelay: number, maxDelay: number) {
+  return Math.min(baseDelay * 2 ** attempt, maxDelay);
+}
+
+function wait(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/** Get a voice channel with whether the bot is able to use it */
+function getVoiceChannel(channel: VoiceBasedChannel): VoiceChannel {
+  const me = channel.guild.members.me;
+  const permissions = me ? channel.permissionsFor(me) : null;
+  const can = (permission: bigint) => permissions?.has(permission) ?? false;
+  const stage = channel.type === ChannelType.GuildStageVoice;
+  return {
+    id: channel.id,
+    name: channel.name,
+    stage,
+    canConnect:
+      can(PermissionFlagsBits.ViewChannel) && can(PermissionFlagsBits.Connect),
+    // Stage speakers are either unsuppressed or need to request to speak
+    canSpeak: stage
+      ? can(PermissionFlagsBits.MuteMembers) ||
+        can(PermissionFlagsBits.RequestToSpeak)
+      : can(PermissionFlagsBits.Speak),
+    // Moving members allows joining channels over the user limit
+    full: channel.full && !can(PermissionFlagsBits.MoveMembers),
+  };
+}
+
+/** Get the voice channels of a guild from the client cache */
+function getGuild(guild: DiscordGuild): Guild {
+  const voiceChannels: VoiceChannel[] = [];
+  guild.channels.cache.forEach((channel) => {
+    if (channel.isVoiceBased()) {
+      voiceChannels.push(getVoiceChannel(channel));
+    }
+  });
+  return {
+    id: guild.id,
+    name: guild.name,
+    icon: guild.iconURL(),
+    voiceChannels,
+  };
+}
+
+function getStageStatus(state: VoiceState): StageStatus {
+  if (!state.suppress) {
+    return "speaker";
+  }
+  return state.requestToSpeakTimestamp ? "requested" : "audience";
+}
+
+const kenkuCommand = new SlashCommandBuilder()
+  .setName(COMMAND_NAME)
+  .setDescription("Control Kenku FM")
+  .setDMPermission(false)
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("play")
+      .setDescription("Play a playlist")
+      .addStringOption((option) =>
+        option
+          .setName("playlist")
+          .setDescription("Playlist to play")
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName("skip").setDescription("Skip to the next track")
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("volume")
+      .setDescription("Set the playlist volume")
+      .addIntegerOption((option) =>
+        option
+          .setName("volume")
+          .setDescription("Volume from 0 to 100")
+          .setRequired(true)
+          .setMinValue(0)
+          .setMaxValue(100)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("sound")
+      .setDescription("Play a sound from a soundboard")
+      .addStringOption((option) =>
+        option
+          .setName("sound")
+          .setDescription("Sound to play")
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName("nowplaying").setDescription("Show what is playing")
+  );
+
+function getCommand(
+  interaction: ChatInputCommandInteraction | AutocompleteInteraction
+): DiscordCommand {
+  const options: DiscordCommand["options"] = {};
+  for (const option of interaction.options.data[0]?.options ?? []) {
+    if (option.value !== undefined) {
+      options[option.name] = option.value;
+    }
+  }
+  return { name: interaction.options.getSubcommand(), options };
+}
+
+export class DiscordBroadcast extends TypedEmitter<DiscordBroadcastEvents> {
   window: BrowserWindow;
   client?: Client;
   audioPlayer = createAudioPlayer({
@@ -29,12 +223,35 @@ export class DiscordBroadcast {
       maxMissedFrames: 3000,
     },
   });
+  /** Register the `/kenku` slash commands in every guild */
+  commandsEnabled = false;
+  /** Id of the role needed to use commands, admins if empty */
+  commandRole = "";
+  /** Discord user id to join, move and leave voice channels with */
+  followUserId = "";
+  /** Queue follow changes so voice state updates are handled in order */
+  _following = Promise.resolve();
+  /** Token of the requested connection, cleared when disconnecting */
+  _token?: string;
+  _reconnectAttempts = 0;
+  _reconnectTimeout?: NodeJS.Timeout;
+  /** Ids of the joined voice channels to rejoin after reconnecting */
+  _channels = new Set<string>();
+  /** Voice channels of each guild sent to the renderer */
+  _guilds = new Map<string, Guild>();
+  /** Guild updates are only sent once the full list has been fetched */
+  _guildsLoaded = false;
+  /** Voice connections being kept alive and the channel they are in */
+  _supervised = new WeakMap<VoiceConnection, BroadcastChannel>();
   constructor(window: BrowserWindow) {
+    super();
     this.window = window;
     ipcMain.on("DISCORD_CONNECT", this._handleConnect);
     ipcMain.on("DISCORD_DISCONNECT", this._handleDisconnect);
     ipcMain.on("DISCORD_JOIN_CHANNEL", this._handleJoinChannel);
     ipcMain.on("DISCORD_LEAVE_CHANNEL", this._handleLeaveChannel);
+    ipcMain.on("DISCORD_SET_COMMANDS", this._handleSetCommands);
+    ipcMain.on("DISCORD_SET_FOLLOW_USER", this._handleSetFollowUser);
     this.audioPlayer.on("error", this._handleBroadcastError);
   }
 
@@ -43,75 +260,272 @@ export class DiscordBroadcast {
     ipcMain.off("DISCORD_DISCONNECT", this._handleDisconnect);
     ipcMain.off("DISCORD_JOIN_CHANNEL", this._handleJoinChannel);
     ipcMain.off("DISCORD_LEAVE_CHANNEL", this._handleLeaveChannel);
-    this.client?.destroy();
-    this.client = undefined;
+    ipcMain.off("DISCORD_SET_COMMANDS", this._handleSetCommands);
+    ipcMain.off("DISCORD_SET_FOLLOW_USER", this._handleSetFollowUser);
+    this._token = undefined;
+    this._destroyClient();
+  }
+
+  /** Get the state of the gateway connection and joined voice channels */
+  getStatus() {
+    let status: "disconnected" | "connecting" | "ready" = "disconnected";
+    if (this.client || this._reconnectTimeout) {
+      status = this.client?.ws.status === Status.Ready ? "ready" : "connecting";
+    }
+    const voiceChannels = [...getVoiceConnections().values()].map(
+      (connection) => {
+        const { channelId, guildId } = connection.joinConfig;
+        const channel = this.client?.channels.cache.get(channelId);
+        const guild = this.client?.guilds.cache.get(guildId);
+        return {
+          id: channelId,
+          name: channel && "name" in channel ? channel.name : "",
+          guildId,
+          guildName: guild?.name ?? "",
+          status: connection.state.status,
+        };
+      }
+    );
+    return {
+      status,
+      user: this.client?.user?.tag,
+      voiceChannels,
+      audioPlayer: this.audioPlayer.state.status,
+    };
   }
 
-  _handleConnect = async (event: Electron.IpcMainEvent, token: string) => {
+  _handleConnect = (_: Electron.IpcMainEvent, token: string) => {
     if (!token) {
-      event.reply("DISCORD_DISCONNECTED");
-      event.reply("ERROR", "Error connecting to bot: Invalid token");
+      this.window.webContents.send("DISCORD_DISCONNECTED");
+      this._sendError("Error connecting to bot: Invalid token");
       return;
     }
-    if (this.client) {
-      this.client.destroy();
-      this.client = undefined;
-    }
+    this._token = token;
+    this._reconnectAttempts = 0;
+    this._connect(token);
+  };
 
-    try {
-      this.client = new Client({
-        intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates],
-      });
-      this.client.once(Events.ClientReady, async () => {
-        event.reply("DISCORD_READY");
-        event.reply("MESSAGE", "Connected");
-        const rawGuilds = await this.client.guilds.fetch();
-        const guilds: Guild[] = await Promise.all(
+  async _connect(token: string) {
+    this._destroyClient();
+
+    const client = new Client({
+      intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates],
+    });
+    this.client = client;
+    // Ignore events from clients that have been replaced or destroyed
+    const handleFailure = (message: string) => {
+      if (this.client === client) {
+        this._handleGatewayFailure(message);
+      }
+    };
+    client.once(Events.ClientReady, async () => {
+      this._reconnectAttempts = 0;
+      this.window.webContents.send("DISCORD_READY");
+      this.window.webContents.send("MESSAGE", "Connected");
+      try {
+        const rawGuilds = await client.guilds.fetch();
+        const guilds = await Promise.all(
           rawGuilds.map(async (baseGuild) => {
             const guild = await baseGuild.fetch();
-            const voiceChannels: VoiceChannel[] = [];
-            const channels = await guild.channels.fetch();
-            channels.forEach((channel) => {
-              if (channel && channel.isVoiceBased()) {
-                voiceChannels.push({
-                  id: channel.id,
-                  name: channel.name,
-                });
-              }
-            });
-            return {
-              id: guild.id,
-              name: guild.name,
-              icon: guild.iconURL(),
-              voiceChannels,
-            };
+            await guild.channels.fetch();
+            return guild;
           })
         );
-        event.reply("DISCORD_GUILDS", guilds);
-      });
-      this.client.on("error", (err) => {
-        event.reply("DISCORD_DISCONNECTED");
-        event.reply("ERROR", `Error connecting to bot: ${err.message}`);
-      });
-      await this.client.login(token);
+        if (this.client !== client) {
+          return;
+        }
+        this._guilds = new Map(
+          guilds.map((guild) => [guild.id, getGuild(guild)])
+        );
+        this._guildsLoaded = true;
+        this._sendGuilds();
+        this._registerCommands();
+        this._rejoinChannels();
+        this._followCurrentChannel();
+      } catch (e) {
+        console.error(e);
+        handleFailure(e.message);
+      }
+    });
+    client.on(Events.GuildCreate, (guild) => {
+      this._registerGuildCommands(guild);
+      this._updateGuild(guild);
+    });
+    client.on(Events.GuildUpdate, (_, guild) => {
+      this._updateGuild(guild);
+    });
+    client.on(Events.GuildDelete, (guild) => {
+      if (this._guilds.delete(guild.id)) {
+        this._sendGuilds();
+      }
+    });
+    client.on(Events.ChannelCreate, (channel) => {
+      this._updateGuild(channel.guild);
+    });
+    client.on(Events.ChannelUpdate, (_, channel) => {
+      if (!channel.isDMBased()) {
+        this._updateGuild(channel.guild);
+      }
+    });
+    client.on(Events.ChannelDelete, (channel) => {
+      if (!channel.isDMBased()) {
+        this._handleChannelDelete(channel);
+      }
+    });
+    // Roles change the permissions the bot has in each channel
+    client.on(Events.GuildRoleCreate, (role) => {
+      this._updateGuild(role.guild);
+    });
+    client.on(Events.GuildRoleUpdate, (_, role) => {
+      this._updateGuild(role.guild);
+    });
+    client.on(Events.GuildRoleDelete, (role) => {
+      this._updateGuild(role.guild);
+    });
+    client.on(Events.GuildMemberUpdate, (_, member) => {
+      if (member.id === client.user?.id) {
+        this._updateGuild(member.guild);
+      }
+    });
+    client.on(Events.InteractionCreate, this._handleInteraction);
+    client.on(Events.VoiceStateUpdate, this._handleVoiceStateUpdate);
+    client.on("error", (err) => {
+      handleFailure(err.message);
+    });
+    client.on(Events.Invalidated, () => {
+      handleFailure("Session invalidated");
+    });
+    client.on(Events.ShardDisconnect, (closeEvent) => {
+      handleFailure(`Gateway closed with code ${closeEvent.code}`);
+    });
+    try {
+      await client.login(token);
     } catch (err) {
-      event.reply("DISCORD_DISCONNECTED");
-      event.reply("ERROR", `Error connecting to bot: ${err.message}`);
+      if (this.client !== client) {
+        return;
+      }
+      if (FATAL_LOGIN_ERRORS.includes(err.code)) {
+        this._token = undefined;
+        this._destroyClient();
+        this.window.webContents.send("DISCORD_DISCONNECTED");
+        this._sendError(`Error connecting to bot: ${err.message}`);
+      } else {
+        handleFailure(err.message);
+      }
     }
-  };
+  }
+
+  /** Replace a failed client with a new login after an exponential backoff */
+  _handleGatewayFailure(message: string) {
+    console.error(`Discord gateway error: ${message}`);
+    // Voice connections can't outlive their client so they are
+    // rejoined from the saved channels once the new client is ready
+    this._destroyConnections();
+    this._destroyClient();
+    const token = this._token;
+    if (!token) {
+      this.window.webContents.send("DISCORD_DISCONNECTED");
+      return;
+    }
+    const delay = getRetryDelay(
+      this._reconnectAttempts,
+      GATEWAY_RETRY_DELAY,
+      GATEWAY_MAX_RETRY_DELAY
+    );
+    // Only show the first error so an outage doesn't flood the user
+    if (this._reconnectAttempts === 0) {
+      this._sendError(`Error connecting to bot: ${message}, reconnecting`);
+    }
+    this._reconnectAttempts++;
+    this.window.webContents.send("DISCORD_RECONNECTING");
+    this._reconnectTimeout = setTimeout(() => {
+      this._reconnectTimeout = undefined;
+      this._connect(token);
+    }, delay);
+  }
 
-  _handleDisconnect = async (event: Electron.IpcMainEvent) => {
-    event.reply("DISCORD_DISCONNECTED");
-    event.reply("DISCORD_GUILDS", []);
-    event.reply("DISCORD_CHANNEL_JOINED", "local");
-    this.client.destroy();
+  /**
+   * Replace a guild in the list and send the updated list
+   * Nothing is sent when the guild is unchanged as most member and voice
+   * updates don't change which channels can be used
+   */
+  _updateGuild(guild: DiscordGuild) {
+    if (!this._guildsLoaded || this.client !== guild.client) {
+      return;
+    }
+    const updated = getGuild(guild);
+    const previous = this._guilds.get(guild.id);
+    if (previous && JSON.stringify(previous) === JSON.stringify(updated)) {
+      return;
+    }
+    this._guilds.set(guild.id, updated);
+    this._sendGuilds();
+  }
+
+  _sendGuilds() {
+    this.window.webContents.send("DISCORD_GUILDS", [...this._guilds.values()]);
+  }
+
+  _handleChannelDelete(channel: GuildBasedChannel) {
+    this._updateGuild(channel.guild);
+    if (!channel.isVoiceBased() || !this._channels.has(channel.id)) {
+      return;
+    }
+    this._channels.delete(channel.id);
+    const connection = getVoiceConnection(channel.guild.id);
+    if (connection?.joinConfig.channelId === channel.id) {
+      connection.destroy();
+    }
+    this.window.webContents.send("DISCORD_CHANNEL_LEFT", channel.id);
+    this.emit("channelLeave", {
+      id: channel.id,
+      name: channel.name,
+      guildId: channel.guild.id,
+      guildName: channel.guild.name,
+    });
+  }
+
+  /** Leave every voice channel without forgetting the joined channels */
+  _destroyConnections() {
+    for (const connection of getVoiceConnections().values()) {
+      const channel = this._supervised.get(connection);
+      connection.destroy();
+      if (channel) {
+        this.emit("channelLeave", channel);
+      }
+    }
+  }
+
+  _destroyClient() {
+    clearTimeout(this._reconnectTimeout);
+    this._reconnectTimeout = undefined;
+    this._guilds.clear();
+    this._guildsLoaded = false;
+    const client = this.client;
     this.client = undefined;
+    client?.destroy();
+  }
+
+  _handleDisconnect = () => {
+    this.window.webContents.send("DISCORD_DISCONNECTED");
+    this.window.webContents.send("DISCORD_GUILDS", []);
+    this.window.webContents.send("DISCORD_CHANNEL_JOINED", "local");
+    this._token = undefined;
+    this._destroyConnections();
+    this._channels.clear();
+    this._destroyClient();
   };
 
-  _handleJoinChannel = async (
-    event: Electron.IpcMainEvent,
-    channelId: string
-  ) => {
+  _handleJoinChannel = (_: Electron.IpcMainEvent, channelId: string) => {
+    this._joinChannel(channelId).catch((e) => {
+      console.error(e);
+      this._channels.delete(channelId);
+      this.window.webContents.send("DISCORD_CHANNEL_LEFT", channelId);
+      this._sendError(`Error joining voice channel: ${e.message}`);
+    });
+  };
+
+  async _joinChannel(channelId: string) {
     if (this.client) {
       const channel = await this.client.channels.fetch(channelId);
       if (channel && channel.isVoiceBased() && channel.joinable) {
@@ -122,48 +536,385 @@ export class DiscordBroadcast {
             adapterCreator: channel.guild.voiceAdapterCreator,
           });
           connection.subscribe(this.audioPlayer);
-          event.reply("DISCORD_CHANNEL_JOINED", channelId);
-          connection.on("error", (e) => {
-            console.error(e);
-            connection.destroy();
-            event.reply("DISCORD_CHANNEL_LEFT", channelId);
-            event.reply(
-              "ERROR",
-              `Error connecting to voice channel: ${e.message}`
-            );
-          });
+          this._channels.add(channelId);
+          this.window.webContents.send("DISCORD_CHANNEL_JOINED", channelId);
+          const broadcastChannel = {
+            id: channel.id,
+            name: channel.name,
+            guildId: channel.guild.id,
+            guildName: channel.guild.name,
+          };
+          this.emit("channelJoin", broadcastChannel);
+          this._superviseConnection(connection, broadcastChannel);
         } catch (e) {
           console.error(e);
-          event.reply("DISCORD_CHANNEL_LEFT", channelId);
-          event.reply(
-            "ERROR",
-            `Error connecting to voice channel: ${e.message}`
-          );
+          this._channels.delete(channelId);
+          this.window.webContents.send("DISCORD_CHANNEL_LEFT", channelId);
+          this._sendError(`Error connecting to voice channel: ${e.message}`);
         }
       }
     } else {
-      event.reply("DISCORD_CHANNEL_LEFT", channelId);
-      event.reply(
-        "ERROR",
+      this.window.webContents.send("DISCORD_CHANNEL_LEFT", channelId);
+      this._sendError(
         `Unable to join voice channel. This channel might be full or this bot might not have permission to join.`
       );
     }
+  }
+
+  /** Rejoin the channels that were lost when the gateway reconnected */
+  _rejoinChannels() {
+    for (const channelId of this._channels) {
+      this._joinChannel(channelId).catch((e) => {
+        console.error(e);
+        this._channels.delete(channelId);
+        this.window.webContents.send("DISCORD_CHANNEL_LEFT", channelId);
+      });
+    }
+  }
+
+  /**
+   * Keep a voice connection alive by rejoining with an exponential backoff
+   * when it disconnects or gets stuck signalling
+   */
+  _superviseConnection(
+    connection: VoiceConnection,
+    channel: BroadcastChannel
+  ) {
+    // Joining another channel in the same guild reuses the connection
+    const supervised = this._supervised.has(connection);
+    this._supervised.set(connection, channel);
+    if (supervised) {
+      return;
+    }
+
+    let waitingForReady = false;
+
+    const abandon = () => {
+      this._abandonConnection(connection, this._supervised.get(connection));
+    };
+
+    const rejoin = async () => {
+      if (connection.rejoinAttempts >= VOICE_MAX_REJOIN_ATTEMPTS) {
+        abandon();
+        return;
+      }
+      await wait(
+        getRetryDelay(
+          connection.rejoinAttempts,
+          VOICE_RETRY_DELAY,
+          VOICE_MAX_RETRY_DELAY
+        )
+      );
+      if (connection.state.status !== VoiceConnectionStatus.Destroyed) {
+        connection.rejoin();
+      }
+    };
+
+    const handleState = async (state: VoiceConnectionState) => {
+      if (state.status === VoiceConnectionStatus.Ready) {
+        // Rejoining a stage puts the bot back in the audience
+        this._speakOnStage(connection.joinConfig.channelId);
+      } else if (state.status === VoiceConnectionStatus.Disconnected) {
+        if (
+          state.reason === VoiceConnectionDisconnectReason.WebSocketClose &&
+          state.closeCode === 4014
+        ) {
+          // Closed when moved between channels or kicked,
+          // a move will start connecting again on its own
+          try {
+            await entersState(
+              connection,
+              VoiceConnectionStatus.Connecting,
+              VOICE_MOVE_TIMEOUT
+            );
+          } catch {
+            abandon();
+          }
+        } else {
+          await rejoin();
+        }
+      } else if (
+        !waitingForReady &&
+        (state.status === VoiceConnectionStatus.Signalling ||
+          state.status === VoiceConnectionStatus.Connecting)
+      ) {
+        waitingForReady = true;
+        try {
+          await entersState(
+            connection,
+            VoiceConnectionStatus.Ready,
+            VOICE_READY_TIMEOUT
+          );
+          waitingForReady = false;
+        } catch {
+          waitingForReady = false;
+          const { status } = connection.state;
+          if (
+            status === VoiceConnectionStatus.Signalling ||
+            status === VoiceConnectionStatus.Connecting
+          ) {
+            await rejoin();
+          }
+        }
+      }
+    };
+
+    connection.on("stateChange", (_, newState) => {
+      handleState(newState);
+    });
+    // Errors also change the state so the connection is recovered above
+    connection.on("error", (e) => {
+      console.error(e);
+    });
+    // The connection starts signalling as soon as it is created
+    handleState(connection.state);
+  }
+
+  /**
+   * Bots join Stage channels in the audience so become a speaker when
+   * allowed to mute members or otherwise raise a hand to request to speak
+   */
+  async _speakOnStage(channelId: string) {
+    const channel = this.client?.channels.cache.get(channelId);
+    if (channel?.type !== ChannelType.GuildStageVoice) {
+      return;
+    }
+    const me = channel.guild.members.me;
+    const permissions = me && channel.permissionsFor(me);
+    try {
+      if (permissions?.has(PermissionFlagsBits.MuteMembers)) {
+        await me.voice.setSuppressed(false);
+      } else if (permissions?.has(PermissionFlagsBits.RequestToSpeak)) {
+        await me.voice.setRequestToSpeak(true);
+        this.window.webContents.send(
+          "MESSAGE",
+          `Requested to speak in ${channel.name}`
+        );
+      } else {
+        this._sendError(
+          `Unable to speak in ${channel.name}: the bot needs the Mute Members or Request to Speak permission`
+        );
+      }
+    } catch (e) {
+      console.error(e);
+      this._sendError(`Unable to speak in ${channel.name}: ${e.message}`);
+    }
+  }
+
+  /** Stop trying to recover a voice connection and let the user know */
+  _abandonConnection(connection: VoiceConnection, channel: BroadcastChannel) {
+    if (connection.state.status !== VoiceConnectionStatus.Destroyed) {
+      connection.destroy();
+    }
+    this._channels.delete(channel.id);
+    this.window.webContents.send("DISCORD_CHANNEL_LEFT", channel.id);
+    this.emit("channelLeave", channel);
+    this._sendError(`Lost connection to voice channel ${channel.name}`);
+  }
+
+  _handleLeaveChannel = (_: Electron.IpcMainEvent, channelId: string) => {
+    this._leaveChannel(channelId).catch((e) => {
+      console.error(e);
+      this.window.webContents.send("DISCORD_CHANNEL_LEFT", channelId);
+      this._sendError(`Error leaving voice channel: ${e.message}`);
+    });
   };
 
-  _handleLeaveChannel = async (
-    event: Electron.IpcMainEvent,
-    channelId: string
-  ) => {
-    const channel = await this.client.channels.fetch(channelId);
-    if (channel.type === ChannelType.GuildVoice) {
+  async _leaveChannel(channelId: string) {
+    this._channels.delete(channelId);
+    // The client is missing while waiting to reconnect
+    const channel = await this.client?.channels.fetch(channelId);
+    if (channel?.isVoiceBased()) {
       const connection = getVoiceConnection(channel.guild.id);
-      connection.destroy();
+      connection?.destroy();
+      this.emit("channelLeave", {
+        id: channel.id,
+        name: channel.name,
+        guildId: channel.guild.id,
+        guildName: channel.guild.name,
+      });
+    }
+    this.window.webContents.send("DISCORD_CHANNEL_LEFT", channelId);
+  }
+
+  _handleSetFollowUser = (_: Electron.IpcMainEvent, userId: string) => {
+    const changed = userId.trim() !== this.followUserId;
+    this.followUserId = userId.trim();
+    if (changed && this.client?.isReady()) {
+      this._followCurrentChannel();
+    }
+  };
+
+  /** Join the voice channels the followed user is already in */
+  _followCurrentChannel() {
+    if (!this.followUserId) {
+      return;
+    }
+    this.client?.guilds.cache.forEach((guild) => {
+      const state = guild.voiceStates.cache.get(this.followUserId);
+      if (state?.channelId) {
+        this._follow(guild.id, state.channelId);
+      }
+    });
+  }
+
+  _handleVoiceStateUpdate = (oldState: VoiceState, newState: VoiceState) => {
+    // Members joining and leaving change which channels are full
+    if (oldState.channelId !== newState.channelId) {
+      this._updateGuild(newState.guild);
+    }
+    if (
+      newState.id === this.client?.user?.id &&
+      newState.channel?.type === ChannelType.GuildStageVoice
+    ) {
+      this.window.webContents.send(
+        "DISCORD_STAGE_STATUS",
+        newState.channelId,
+        getStageStatus(newState)
+      );
+      if (
+        oldState.channelId === newState.channelId &&
+        !oldState.suppress &&
+        newState.suppress
+      ) {
+        this._sendError(
+          `Moved to the audience in ${newState.channel.name}, Kenku FM can't be heard`
+        );
+      }
+    }
+    if (
+      !this.followUserId ||
+      newState.id !== this.followUserId ||
+      oldState.channelId === newState.channelId
+    ) {
+      return;
     }
-    event.reply("DISCORD_CHANNEL_LEFT", channelId);
+    this._follow(newState.guild.id, newState.channelId);
   };
 
+  /**
+   * Move the bot in a guild to the channel of the followed user
+   * or leave when they leave, changes are queued so fast moves stay in order
+   */
+  _follow(guildId: string, channelId: string | null) {
+    this._following = this._following
+      .then(async () => {
+        const currentId = getVoiceConnection(guildId)?.joinConfig.channelId;
+        if (currentId === channelId) {
+          return;
+        }
+        if (currentId) {
+          await this._leaveChannel(currentId);
+        }
+        if (channelId) {
+          await this._joinChannel(channelId);
+        }
+      })
+      .catch((e) => {
+        console.error(e);
+        this._sendError(`Unable to follow user: ${e.message}`);
+      });
+  }
+
+  _handleSetCommands = (
+    _: Electron.IpcMainEvent,
+    enabled: boolean,
+    role: string
+  ) => {
+    const changed = enabled !== this.commandsEnabled;
+    this.commandsEnabled = enabled;
+    this.commandRole = role.trim();
+    if (changed && this.client?.isReady()) {
+      this._registerCommands();
+    }
+  };
+
+  _registerCommands() {
+    this.client?.guilds.cache.forEach((guild) => {
+      this._registerGuildCommands(guild);
+    });
+  }
+
+  /**
+   * Commands are registered per guild as global commands can take an hour
+   * to show up, registering an empty list removes them when disabled
+   */
+  async _registerGuildCommands(guild: DiscordGuild) {
+    try {
+      await guild.commands.set(
+        this.commandsEnabled ? [kenkuCommand.toJSON()] : []
+      );
+    } catch (e) {
+      console.error(e);
+      this._sendError(
+        `Unable to register slash commands in ${guild.name}: ${e.message}`
+      );
+    }
+  }
+
+  /** Members need the configured role or the Manage Server permission */
+  _canUseCommands(
+    interaction: ChatInputCommandInteraction | AutocompleteInteraction
+  ) {
+    if (!interaction.inCachedGuild()) {
+      return false;
+    }
+    if (!this.commandRole) {
+      return interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild);
+    }
+    // Only match ids as role names aren't unique and can be changed by anyone
+    // allowed to manage roles
+    return interaction.member.roles.cache.has(this.commandRole);
+  }
+
+  _handleInteraction = async (interaction: Interaction) => {
+    if (
+      !this.commandsEnabled ||
+      !(interaction.isChatInputCommand() || interaction.isAutocomplete()) ||
+      interaction.commandName !== COMMAND_NAME
+    ) {
+      return;
+    }
+    try {
+      if (interaction.isAutocomplete()) {
+        if (!this._canUseCommands(interaction)) {
+          await interaction.respond([]);
+          return;
+        }
+        const focused = interaction.options.getFocused(true);
+        this.emit(
+          "autocomplete",
+          { name: focused.name, value: String(focused.value) },
+          (choices) => {
+            interaction.respond(choices).catch(console.error);
+          }
+        );
+        return;
+      }
+      if (!this._canUseCommands(interaction)) {
+        await interaction.reply({
+          content: "You don't have permission to control Kenku FM",
+          ephemeral: true,
+        });
+        return;
+      }
+      // Defer as the player can take longer to respond than Discord allows
+      await interaction.deferReply({ ephemeral: true });
+      this.emit("command", getCommand(interaction), (message) => {
+        interaction.editReply(message).catch(console.error);
+      });
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  _sendError(message: string) {
+    this.window.webContents.send("ERROR", message);
+    this.emit("errorMessage", message);
+  }
+
   _handleBroadcastError = (error: Error) => {
-    this.window.webContents.send("ERROR", error.message);
+    this._sendError(error.message);
     console.error(error);
   };
 }
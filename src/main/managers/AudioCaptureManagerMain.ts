@@ -21,6 +21,11 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
   _browserWindow: BrowserWindow;
   _encoder?: prism.opus.Encoder;
   _wss: WebSocketServer;
+  streamingMode?: "lowLatency" | "performance";
+  /** Whether audio is played on this computer */
+  loopback = true;
+  /** Ids of the external audio devices being captured */
+  externalInputs = new Set<string>();
 
   constructor() {
     super();
@@ -44,6 +49,7 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
     ipcMain.on("AUDIO_CAPTURE_START", this._handleStart);
     ipcMain.on("AUDIO_CAPTURE_SET_LOOPBACK", this._handleSetLoopback);
     ipcMain.on("AUDIO_CAPTURE_SET_MUTED", this._handleSetMuted);
+    ipcMain.on("AUDIO_CAPTURE_SET_VOLUME", this._handleSetVolume);
     ipcMain.on(
       "AUDIO_CAPTURE_START_EXTERNAL_AUDIO_CAPTURE",
       this._handleStartExternalAudioCapture
@@ -74,6 +80,7 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
     ipcMain.off("AUDIO_CAPTURE_START", this._handleStart);
     ipcMain.off("AUDIO_CAPTURE_SET_LOOPBACK", this._handleSetLoopback);
     ipcMain.off("AUDIO_CAPTURE_SET_MUTED", this._handleSetMuted);
+    ipcMain.off("AUDIO_CAPTURE_SET_VOLUME", this._handleSetVolume);
     ipcMain.off(
       "AUDIO_CAPTURE_START_EXTERNAL_AUDIO_CAPTURE",
       this._handleStartExternalAudioCapture
@@ -99,6 +106,16 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
     this._wss.close();
   }
 
+  /** Get the state of the capture pipeline */
+  getStatus() {
+    return {
+      streamingMode: this.streamingMode,
+      streaming: Boolean(this._encoder),
+      loopback: this.loopback,
+      inputs: [...this.externalInputs],
+    };
+  }
+
   _handleWebsocketConnection = (ws: WebSocket) => {
     ws.on("message", this._handleStreamData);
   };
@@ -107,10 +124,12 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
     _: Electron.IpcMainEvent,
     streamingMode: "lowLatency" | "performance"
   ) => {
+    this.streamingMode = streamingMode;
     this._browserWindow.webContents.send("AUDIO_CAPTURE_START", streamingMode);
   };
 
   _handleSetLoopback = (_: Electron.IpcMainEvent, loopback: boolean) => {
+    this.loopback = loopback;
     this._browserWindow.webContents.send("AUDIO_CAPTURE_SET_LOOPBACK", loopback);
   };
 
@@ -126,10 +145,15 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
     );
   };
 
+  _handleSetVolume = (_: Electron.IpcMainEvent, volume: number) => {
+    this._browserWindow.webContents.send("AUDIO_CAPTURE_SET_VOLUME", volume);
+  };
+
   _handleStartExternalAudioCapture = (
     _: Electron.IpcMainEvent,
     deviceId: string
   ) => {
+    this.externalInputs.add(deviceId);
     this._browserWindow.webContents.send(
       "AUDIO_CAPTURE_START_EXTERNAL_AUDIO_CAPTURE",
       deviceId
@@ -140,6 +164,7 @@ export class AudioCaptureManagerMain extends TypedEmitter<AudioCaptureManagerEve
     _: Electron.IpcMainEvent,
     deviceId: string
   ) => {
+    this.externalInputs.delete(deviceId);
     this._browserWindow.webContents.send(
       "AUDIO_CAPTURE_STOP_EXTERNAL_AUDIO_CAPTURE",
       deviceId
@@ -290,4 +290,21 @@ export class BrowserViewManagerMain {
       console.error(err);
     }
   }
+
+  /**
+   * Pause all audio and video elements in a browser view
+   * This includes media in embedded frames such as video players
+   */
+  pauseMedia(id: number) {
+    if (this.views[id]) {
+      for (const frame of this.views[id].webContents.mainFrame
+        .framesInSubtree) {
+        frame
+          .executeJavaScript(
+            'document.querySelectorAll("audio, video").forEach((media) => media.pause())'
+          )
+          .catch((err) => console.error(err));
+      }
+    }
+  }
 }
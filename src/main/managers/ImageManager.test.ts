@@ -0,0 +1,78 @@
+import http from "http";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { ImageManager, UnsupportedImageError } from "./ImageManager";
+
+describe("ImageManager", () => {
+  let dir: string;
+  let server: http.Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "kenku-images-"));
+    await fs.writeFile(path.join(dir, "cover.PNG"), "png");
+    await fs.writeFile(path.join(dir, "id_rsa"), "secret");
+    server = http.createServer((request, response) => {
+      if (request.url === "/image.png") {
+        response.writeHead(200, { "Content-Type": "image/png" });
+        response.end("png");
+      } else if (request.url === "/large.png") {
+        response.writeHead(200, { "Content-Type": "image/png" });
+        response.end(Buffer.alloc(2048));
+      } else {
+        response.writeHead(200, { "Content-Type": "text/html" });
+        response.end("<html></html>");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    baseURL = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads image files", async () => {
+    const images = new ImageManager();
+    const image = await images.load(`file://${dir}/cover.PNG`);
+    expect(image?.contentType).toBe("image/png");
+    expect(image?.data.toString()).toBe("png");
+  });
+
+  it("refuses files that aren't images", async () => {
+    const images = new ImageManager();
+    await expect(images.load(`file://${dir}/id_rsa`)).rejects.toBeInstanceOf(
+      UnsupportedImageError
+    );
+  });
+
+  it("refuses data urls that aren't images", async () => {
+    const images = new ImageManager();
+    await expect(images.load("data:text/plain,secret")).rejects.toBeInstanceOf(
+      UnsupportedImageError
+    );
+    const image = await images.load("data:image/png;base64,cG5n");
+    expect(image?.data.toString()).toBe("png");
+  });
+
+  it("refuses remote responses that aren't images", async () => {
+    const images = new ImageManager();
+    await expect(images.load(`${baseURL}/page`)).rejects.toBeInstanceOf(
+      UnsupportedImageError
+    );
+    const image = await images.load(`${baseURL}/image.png`);
+    expect(image?.contentType).toBe("image/png");
+  });
+
+  it("limits the size of remote images", async () => {
+    const images = new ImageManager();
+    images.maxSize = 1024;
+    expect(await images.load(`${baseURL}/large.png`)).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import fetch from "cross-fetch";
+import { promises as fs } from "fs";
+import path from "path";
+
+export type LoadedImage = {
+  data: Buffer;
+  contentType: string;
+};
+
+type CacheEntry = {
+  image: LoadedImage;
+  time: number;
+};
+
+const contentTypes: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif",
+};
+
+export const IMAGE_EXTENSIONS = Object.keys(contentTypes);
+
+/** Thrown when a url isn't an image so it shouldn't be sent to clients */
+export class UnsupportedImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedImageError";
+  }
+}
+
+/** Convert a url made with `encodeFilePath` back to a path */
+function getFilePath(url: string) {
+  return decodeURIComponent(url.slice("file://".length));
+}
+
+function isImageContentType(contentType: string) {
+  return contentType.toLowerCase().startsWith("image/");
+}
+
+/**
+ * Manager to load playlist and soundboard artwork for the remote
+ * Remote images are cached so repeated requests don't download them again
+ */
+export class ImageManager {
+  /** Time to wait for a remote image in milliseconds */
+  timeout = 10000;
+  /** Time to keep remote images in milliseconds */
+  maxAge = 1000 * 60 * 60;
+  /** Maximum number of remote images to keep */
+  maxEntries = 50;
+  /** Maximum size of a remote image in bytes */
+  maxSize = 10 * 1024 * 1024;
+  _cache = new Map<string, CacheEntry>();
+
+  destroy() {
+    this._cache.clear();
+  }
+
+  /**
+   * Load an image from a `file`, `data` or `http` url
+   * Only images are loaded so backgrounds can't be used to read other files
+   * @returns The image or undefined if it can't be loaded
+   * @throws UnsupportedImageError if the url isn't an image
+   */
+  async load(url: string): Promise<LoadedImage | undefined> {
+    try {
+      if (url.startsWith("file:")) {
+        const filePath = getFilePath(url);
+        const extension = path.extname(filePath).toLowerCase();
+        const contentType = contentTypes[extension];
+        if (!contentType) {
+          throw new UnsupportedImageError(
+            `Unsupported image extension: ${extension}`
+          );
+        }
+        const data = await fs.readFile(filePath);
+        return { data, contentType };
+      } else if (url.startsWith("data:")) {
+        const match = url.match(/^data:([^;,]+)?(;base64)?,([\s\S]*)$/);
+        if (!match) {
+          return undefined;
+        }
+        const [, contentType = "text/plain", base64, body] = match;
+        if (!isImageContentType(contentType)) {
+          throw new UnsupportedImageError(
+            `Unsupported image type: ${contentType}`
+          );
+        }
+        return {
+          data: base64
+            ? Buffer.from(body, "base64")
+            : Buffer.from(decodeURIComponent(body)),
+          contentType,
+        };
+      } else if (/^https?:/.test(url)) {
+        return await this._fetch(url);
+      }
+    } catch (e) {
+      if (e instanceof UnsupportedImageError) {
+        throw e;
+      }
+      console.error(`Unable to load image ${url}: ${e.message}`);
+    }
+    return undefined;
+  }
+
+  async _fetch(url: string) {
+    const cached = this._cache.get(url);
+    if (cached && Date.now() - cached.time < this.maxAge) {
+      return cached.image;
+    }
+    this._cache.delete(url);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+    try {
+      // `size` makes node-fetch stop reading bodies over the limit
+      const response = await fetch(url, {
+        signal: controller.signal,
+        size: this.maxSize,
+      } as RequestInit);
+      if (!response.ok) {
+        throw Error(`Response status ${response.status}`);
+      }
+      const contentType = response.headers.get("Content-Type") || "";
+      if (!isImageContentType(contentType)) {
+        throw new UnsupportedImageError(
+          `Unsupported image type: ${contentType}`
+        );
+      }
+      const length = Number(response.headers.get("Content-Length"));
+      if (length > this.maxSize) {
+        throw Error(`Image is larger than ${this.maxSize} bytes`);
+      }
+      const data = Buffer.from(await response.arrayBuffer());
+      if (data.length > this.maxSize) {
+        throw Error(`Image is larger than ${this.maxSize} bytes`);
+      }
+      const image: LoadedImage = { data, contentType };
+      // Remove the oldest image, maps keep their insertion order
+      const [oldest] = this._cache.keys();
+      if (oldest && this._cache.size >= this.maxEntries) {
+        this._cache.delete(oldest);
+      }
+      this._cache.set(url, { image, time: Date.now() });
+      return image;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { v4 as uuid } from "uuid";
+
+import { ImportJobType } from "../remote/routes/jobs";
+
+type JobEntry = {
+  job: ImportJobType;
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+};
+
+/**
+ * Manager to track track imports started from the remote
+ * Finished jobs are kept for a while so their result can still be read
+ */
+export class ImportJobManager {
+  /** Time to keep finished jobs in milliseconds */
+  retention = 1000 * 60 * 60;
+  _jobs: Record<string, JobEntry> = {};
+
+  destroy() {
+    for (const entry of Object.values(this._jobs)) {
+      clearTimeout(entry.timer);
+      entry.controller.abort();
+    }
+    this._jobs = {};
+  }
+
+  /**
+   * Create a running job
+   * @returns The job and a signal that fires when the job is cancelled
+   */
+  create(playlistId: string, url: string) {
+    const controller = new AbortController();
+    const job: ImportJobType = {
+      id: uuid(),
+      playlistId,
+      url,
+      status: "running",
+    };
+    this._jobs[job.id] = { job, controller };
+    return { job, signal: controller.signal };
+  }
+
+  get(id: string): ImportJobType | undefined {
+    return this._jobs[id]?.job;
+  }
+
+  /** Update a running job, changes to finished jobs are ignored */
+  update(id: string, changes: Partial<ImportJobType>) {
+    const entry = this._jobs[id];
+    if (entry && entry.job.status === "running") {
+      entry.job = { ...entry.job, ...changes };
+      if (entry.job.status !== "running") {
+        entry.timer = setTimeout(() => {
+          delete this._jobs[id];
+        }, this.retention);
+      }
+    }
+  }
+
+  /**
+   * Cancel a running job
+   * @returns False if the job doesn't exist or has already finished
+   */
+  cancel(id: string) {
+    const entry = this._jobs[id];
+    if (!entry || entry.job.status !== "running") {
+      return false;
+    }
+    this.update(id, { status: "cancelled" });
+    entry.controller.abort();
+    return true;
+  }
+}
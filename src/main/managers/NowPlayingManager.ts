@@ -0,0 +1,94 @@
+import { promises as fs } from "fs";
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import { RemoteEvent } from "../../types/player";
+import { NowPlaying } from "../../types/remote";
+
+interface NowPlayingManagerEvents {
+  change: (nowPlaying: NowPlaying) => void;
+}
+
+/**
+ * Get a plain text version of what is playing
+ * The first line is the track and playlist followed by a line for each sound
+ */
+export function getNowPlayingText(nowPlaying: NowPlaying) {
+  const lines: string[] = [];
+  const { track, playlist } = nowPlaying;
+  if (nowPlaying.playing && track) {
+    lines.push(
+      playlist?.title ? `${track.title} - ${playlist.title}` : track.title
+    );
+  }
+  for (const sound of nowPlaying.sounds) {
+    lines.push(sound.title);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Manager to keep track of what is playing for stream overlays
+ * State is built from the remote events sent by the player view
+ */
+export class NowPlayingManager extends TypedEmitter<NowPlayingManagerEvents> {
+  nowPlaying: NowPlaying = { playing: false, sounds: [] };
+  /** File to write the now playing text to on every change */
+  filePath?: string;
+  /** Queue writes so the file always ends up with the latest text */
+  _writing = Promise.resolve();
+
+  handleRemoteEvent = (event: RemoteEvent) => {
+    const nowPlaying = this.nowPlaying;
+    if (event.type === "playlist-track") {
+      const { track, playlist } = event;
+      this._update({
+        ...nowPlaying,
+        track: track ? { id: track.id, title: track.title } : undefined,
+        playlist: playlist
+          ? { id: playlist.id, title: playlist.title }
+          : undefined,
+      });
+    } else if (event.type === "playlist-playing") {
+      this._update({ ...nowPlaying, playing: event.playing });
+    } else if (event.type === "soundboard-play") {
+      const { id, title } = event.sound;
+      this._update({
+        ...nowPlaying,
+        sounds: [
+          ...nowPlaying.sounds.filter((sound) => sound.id !== id),
+          { id, title },
+        ],
+      });
+    } else if (event.type === "soundboard-stop") {
+      this._update({
+        ...nowPlaying,
+        sounds: nowPlaying.sounds.filter((sound) => sound.id !== event.id),
+      });
+    }
+  };
+
+  /** Set the file to write to and write the current text to it */
+  setFilePath(filePath?: string) {
+    this.filePath = filePath;
+    this._write();
+  }
+
+  _update(nowPlaying: NowPlaying) {
+    this.nowPlaying = nowPlaying;
+    this.emit("change", nowPlaying);
+    this._write();
+  }
+
+  _write() {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return;
+    }
+    const text = getNowPlayingText(this.nowPlaying);
+    this._writing = this._writing
+      .then(() => fs.writeFile(filePath, text))
+      .catch((e) => {
+        console.error(`Unable to write now playing file: ${e.message}`);
+      });
+  }
+}
@@ -142,6 +142,12 @@ function isYoutubeURL(value: string): boolean {
   }
 }
 
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error("Track import cancelled");
+  }
+}
+
 export class OptionalToolManager {
   private readonly baseDir = path.join(app.getPath("userData"), "optional-tools");
   private readonly binDir = path.join(this.baseDir, "bin");
@@ -158,7 +164,9 @@ export class OptionalToolManager {
     source: string,
     playlistId: string,
     onProgress?: (progress: TrackSourceProgress) => void,
+    signal?: AbortSignal,
   ): Promise<ResolvedTrackSource> {
+    throwIfAborted(signal);
     const trimmed = source.trim();
     if (!isYoutubeURL(trimmed)) {
       onProgress?.({
@@ -178,6 +186,7 @@ export class OptionalToolManager {
       progress: 5,
     });
     const ytDlpPath = await this.ensureToolInstalled("yt-dlp", onProgress);
+    throwIfAborted(signal);
     onProgress?.({
       stage: "download",
       message: "Starting YouTube audio download...",
@@ -188,6 +197,7 @@ export class OptionalToolManager {
       trimmed,
       playlistId,
       onProgress,
+      signal,
     );
     onProgress?.({
       stage: "complete",
@@ -447,6 +457,7 @@ export class OptionalToolManager {
     sourceUrl: string,
     playlistId: string,
     onProgress?: (progress: TrackSourceProgress) => void,
+    signal?: AbortSignal,
   ): Promise<{ title: string; filePath: string }> {
     const safePlaylistId =
       playlistId.replace(/[^a-zA-Z0-9-_]/g, "") || "default";
@@ -504,7 +515,9 @@ export class OptionalToolManager {
       args,
       handleProgressLine,
       handleProgressLine,
+      signal,
     );
+    throwIfAborted(signal);
 
     onProgress?.({
       stage: "download-complete",
@@ -539,9 +552,12 @@ export class OptionalToolManager {
     args: string[],
     onStderrLine?: (line: string) => void,
     onStdoutLine?: (line: string) => void,
+    signal?: AbortSignal,
   ): Promise<{ code: number; stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
       const proc = spawn(binaryPath, args, {
+        // Kill the process when the signal fires
+        signal,
         stdio: ["ignore", "pipe", "pipe"],
         env: {
           ...process.env,
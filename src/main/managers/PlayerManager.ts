@@ -1,29 +1,94 @@
-import { ipcMain, BrowserWindow, webContents } from "electron";
+import { app, ipcMain, BrowserWindow, webContents } from "electron";
+import { networkInterfaces } from "os";
+import path from "path";
+import { createSocket } from "dgram";
 import Fastify, { FastifyInstance } from "fastify";
+import { Bundle, Client, MessageLike, Server } from "node-osc";
+import { TypedEmitter } from "tiny-typed-emitter";
 import { registerRemote } from "../remote";
+import { getOSCFeedback, handleOSCMessage } from "../remote/osc";
+import {
+  getDiscordCommandChoices,
+  handleDiscordCommand,
+} from "../remote/discord";
 import {
   OptionalToolManager,
   ResolvedTrackSource,
   TrackSourceProgress,
 } from "./OptionalToolManager";
+import { RemoteRequestManager } from "./RemoteRequestManager";
+import { ImportJobManager } from "./ImportJobManager";
+import { WebhookManager } from "./WebhookManager";
+import { ImageManager } from "./ImageManager";
+import { NowPlayingManager } from "./NowPlayingManager";
+import { BrowserViewManagerMain } from "./BrowserViewManagerMain";
+import { PlaybackManager } from "./PlaybackManager";
+import { ImportJobType } from "../remote/routes/jobs";
+import { RemoteEvent } from "../../types/player";
+import { RemoteKey, StatusReply, Webhook } from "../../types/remote";
+import {
+  BroadcastChannel,
+  DiscordCommand,
+  DiscordCommandChoice,
+} from "../broadcast/DiscordBroadcast";
 
 declare const PLAYER_WINDOW_WEBPACK_ENTRY: string;
 declare const PLAYER_WINDOW_PRELOAD_WEBPACK_ENTRY: string;
 
-export class PlayerManager {
+interface PlayerManagerEvents {
+  remoteEvent: (event: RemoteEvent) => void;
+}
+
+export class PlayerManager extends TypedEmitter<PlayerManagerEvents> {
   registeredViewId?: number;
   fastify: FastifyInstance | null = null;
   address = "127.0.0.1";
   port = "3333";
+  remoteAuthEnabled = false;
+  remoteKeys: RemoteKey[] = [];
+  osc: Server | null = null;
+  _oscAttempt = 0;
+  oscFeedback: Client | null = null;
   toolManager = new OptionalToolManager();
+  requests = new RemoteRequestManager();
+  jobs = new ImportJobManager();
+  webhooks = new WebhookManager();
+  images = new ImageManager();
+  nowPlaying = new NowPlayingManager();
+  viewManager: BrowserViewManagerMain;
+  playbackManager: PlaybackManager;
 
-  constructor() {
+  constructor(
+    viewManager: BrowserViewManagerMain,
+    playbackManager: PlaybackManager
+  ) {
+    super();
+    this.viewManager = viewManager;
+    this.playbackManager = playbackManager;
+    this.on("remoteEvent", this.webhooks.handleRemoteEvent);
+    this.on("remoteEvent", this.nowPlaying.handleRemoteEvent);
+    playbackManager.discord.on("channelJoin", this._handleChannelJoin);
+    playbackManager.discord.on("channelLeave", this._handleChannelLeave);
+    playbackManager.discord.on("errorMessage", this._handleErrorMessage);
+    playbackManager.discord.on("command", this._handleDiscordCommand);
+    playbackManager.discord.on("autocomplete", this._handleDiscordAutocomplete);
     ipcMain.on("PLAYER_GET_URL", this._handleGetURL);
     ipcMain.on("PLAYER_GET_PRELOAD_URL", this._handleGetPreloadURL);
     ipcMain.on("PLAYER_REGISTER_VIEW", this._handleRegisterView);
     ipcMain.on("PLAYER_START_REMOTE", this._handleStartRemote);
     ipcMain.on("PLAYER_STOP_REMOTE", this._handleStopRemote);
+    ipcMain.on("PLAYER_SET_REMOTE_AUTH", this._handleSetRemoteAuth);
+    ipcMain.on("PLAYER_SET_WEBHOOKS", this._handleSetWebhooks);
+    ipcMain.on("PLAYER_SET_NOW_PLAYING_FILE", this._handleSetNowPlayingFile);
+    ipcMain.on("PLAYER_START_OSC", this._handleStartOSC);
+    ipcMain.on("PLAYER_STOP_OSC", this._handleStopOSC);
+    ipcMain.on("PLAYER_REMOTE_EVENT", this._handleRemoteEvent);
     ipcMain.handle("PLAYER_RESOLVE_TRACK_SOURCE", this._handleResolveTrackSource);
+    ipcMain.handle("PLAYER_GET_REMOTE_URL", this._handleGetRemoteURL);
+    ipcMain.handle(
+      "PLAYER_GET_NOW_PLAYING_PATH",
+      this._handleGetNowPlayingPath
+    );
   }
 
   destroy() {
@@ -32,8 +97,28 @@ export class PlayerManager {
     ipcMain.off("PLAYER_REGISTER_VIEW", this._handleRegisterView);
     ipcMain.off("PLAYER_START_REMOTE", this._handleStartRemote);
     ipcMain.off("PLAYER_STOP_REMOTE", this._handleStopRemote);
+    ipcMain.off("PLAYER_SET_REMOTE_AUTH", this._handleSetRemoteAuth);
+    ipcMain.off("PLAYER_SET_WEBHOOKS", this._handleSetWebhooks);
+    ipcMain.off("PLAYER_SET_NOW_PLAYING_FILE", this._handleSetNowPlayingFile);
+    ipcMain.off("PLAYER_START_OSC", this._handleStartOSC);
+    ipcMain.off("PLAYER_STOP_OSC", this._handleStopOSC);
+    ipcMain.off("PLAYER_REMOTE_EVENT", this._handleRemoteEvent);
     ipcMain.removeHandler("PLAYER_RESOLVE_TRACK_SOURCE");
+    ipcMain.removeHandler("PLAYER_GET_REMOTE_URL");
+    ipcMain.removeHandler("PLAYER_GET_NOW_PLAYING_PATH");
+    this.off("remoteEvent", this.webhooks.handleRemoteEvent);
+    this.off("remoteEvent", this.nowPlaying.handleRemoteEvent);
+    const discord = this.playbackManager.discord;
+    discord.off("channelJoin", this._handleChannelJoin);
+    discord.off("channelLeave", this._handleChannelLeave);
+    discord.off("errorMessage", this._handleErrorMessage);
+    discord.off("command", this._handleDiscordCommand);
+    discord.off("autocomplete", this._handleDiscordAutocomplete);
+    this.requests.destroy();
+    this.jobs.destroy();
+    this.images.destroy();
     this.stopRemote();
+    this.stopOSC();
   }
 
   getView() {
@@ -42,6 +127,23 @@ export class PlayerManager {
     }
   }
 
+  /** Get the main window which owns the output and input selection */
+  getWindow() {
+    const window = this.viewManager.window;
+    if (window && !window.isDestroyed()) {
+      return window.webContents;
+    }
+  }
+
+  /** Pause media playing in every browser view except the player */
+  pauseBrowserViews() {
+    for (const id of Object.keys(this.viewManager.views)) {
+      if (Number(id) !== this.registeredViewId) {
+        this.viewManager.pauseMedia(Number(id));
+      }
+    }
+  }
+
   startRemote(address: string, port: string) {
     this.address = address;
     this.port = port;
@@ -56,6 +158,7 @@ export class PlayerManager {
         for (const window of windows) {
           window.webContents.send("ERROR", err.message);
         }
+        this._handleErrorMessage(err.message);
         this.stopRemote();
       } else {
         for (const window of windows) {
@@ -77,12 +180,163 @@ export class PlayerManager {
     }
   }
 
+  /**
+   * Listen for OSC messages and send state changes to the feedback address
+   * Feedback is disabled when no feedback port is given
+   */
+  async startOSC(
+    address: string,
+    port: string,
+    feedbackAddress: string,
+    feedbackPort: string
+  ) {
+    this.stopOSC();
+    const attempt = this._oscAttempt;
+
+    // node-osc doesn't forward socket errors such as the port being in use
+    // so make sure the port can be bound before starting the server
+    try {
+      await checkUDPPort(Number(port), address);
+    } catch (err) {
+      if (attempt === this._oscAttempt) {
+        this._handleOSCError(err instanceof Error ? err.message : String(err));
+      }
+      return;
+    }
+    // OSC was stopped or restarted while checking the port
+    if (attempt !== this._oscAttempt) {
+      return;
+    }
+
+    this.osc = new Server(Number(port), address);
+    this.osc.on("listening", () => {
+      const windows = BrowserWindow.getAllWindows();
+      for (const window of windows) {
+        window.webContents.send("PLAYER_OSC_ENABLED", true);
+      }
+    });
+    this.osc.on("message", (message) => handleOSCMessage(this, message));
+    this.osc.on("bundle", (bundle: Bundle & { elements: MessageLike[] }) => {
+      for (const element of bundle.elements) {
+        if (Array.isArray(element)) {
+          handleOSCMessage(this, element);
+        }
+      }
+    });
+    // Ignore packets that can't be decoded as OSC
+    this.osc.on("error", (err) => {
+      console.error("Unable to decode OSC message", err);
+    });
+
+    if (feedbackPort) {
+      this.oscFeedback = new Client(feedbackAddress, Number(feedbackPort));
+      this.on("remoteEvent", this._handleOSCFeedback);
+    }
+  }
+
+  stopOSC() {
+    this._oscAttempt++;
+    if (this.oscFeedback) {
+      this.off("remoteEvent", this._handleOSCFeedback);
+      this.oscFeedback.close();
+      this.oscFeedback = null;
+    }
+    if (this.osc) {
+      this.osc.close();
+      this.osc = null;
+
+      const windows = BrowserWindow.getAllWindows();
+      for (const window of windows) {
+        window.webContents.send("PLAYER_OSC_ENABLED", false);
+      }
+    }
+  }
+
   getRemoteInfo() {
     return `Running: ${this.fastify !== null}\nAddress: ${
       this.address
     }\nPort: ${this.port}`;
   }
 
+  /**
+   * Start importing a track into a playlist in the background
+   * The track is added to the playlist once the import is complete
+   */
+  startImportJob(
+    playlistId: string,
+    url: string,
+    title?: string
+  ): ImportJobType {
+    const { job, signal } = this.jobs.create(playlistId, url);
+    this._runImportJob(job.id, playlistId, url, title, signal);
+    return job;
+  }
+
+  async _runImportJob(
+    jobId: string,
+    playlistId: string,
+    url: string,
+    title: string | undefined,
+    signal: AbortSignal
+  ) {
+    try {
+      const resolved = await this.toolManager.resolveTrackSource(
+        url,
+        playlistId,
+        (progress) => this.jobs.update(jobId, { progress }),
+        signal
+      );
+      const view = this.getView();
+      if (!view) {
+        throw new Error("Unable to connect to Kenku FM");
+      }
+      const track = await this.requests.request<ImportJobType["track"]>(
+        view,
+        "PLAYER_REMOTE_PLAYLIST_TRACK_ADD",
+        [
+          playlistId,
+          { title: title || resolved.title || "Track", url: resolved.url },
+        ],
+        { signal }
+      );
+      this.jobs.update(jobId, { status: "complete", track });
+    } catch (e) {
+      this.jobs.update(jobId, { status: "failed", error: e.message });
+    }
+  }
+
+  /** Get the state of the app for the remote status endpoint */
+  getStatus(): StatusReply {
+    return {
+      version: app.getVersion(),
+      discord: this.playbackManager.discord.getStatus(),
+      audioCapture: this.playbackManager.audioCaptureManager.getStatus(),
+      playerView: this.getView() !== undefined,
+    };
+  }
+
+  /**
+   * Get the URL of the web remote
+   * When listening on all interfaces the first external IPv4 address is used
+   * so the URL can be opened from other devices on the network
+   */
+  getRemoteURL() {
+    let host = this.address;
+    if (host === "0.0.0.0") {
+      const addresses = Object.values(networkInterfaces()).flat();
+      const external = addresses.find(
+        (address) => address?.family === "IPv4" && !address.internal
+      );
+      host = external?.address || "127.0.0.1";
+    }
+    return `http://${host}:${this.port}/`;
+  }
+
+  /** Path of the file the now playing text is written to when enabled */
+  getNowPlayingPath() {
+    return path.join(app.getPath("userData"), "nowplaying.txt");
+  }
+
   _handleStartRemote = (
     _: Electron.IpcMainEvent,
     address: string,
@@ -91,6 +345,88 @@ export class PlayerManager {
 
   _handleStopRemote = () => this.stopRemote();
 
+  _handleSetRemoteAuth = (
+    _: Electron.IpcMainEvent,
+    enabled: boolean,
+    keys: RemoteKey[]
+  ) => {
+    this.remoteAuthEnabled = enabled;
+    this.remoteKeys = keys;
+  };
+
+  _handleSetWebhooks = (_: Electron.IpcMainEvent, webhooks: Webhook[]) => {
+    this.webhooks.webhooks = webhooks;
+  };
+
+  _handleSetNowPlayingFile = (_: Electron.IpcMainEvent, enabled: boolean) => {
+    this.nowPlaying.setFilePath(
+      enabled ? this.getNowPlayingPath() : undefined
+    );
+  };
+
+  _handleGetNowPlayingPath = async () => this.getNowPlayingPath();
+
+  _handleChannelJoin = (channel: BroadcastChannel) => {
+    this.webhooks.send("discord-join", { channel });
+  };
+
+  _handleChannelLeave = (channel: BroadcastChannel) => {
+    this.webhooks.send("discord-leave", { channel });
+  };
+
+  _handleDiscordCommand = async (
+    command: DiscordCommand,
+    reply: (message: string) => void
+  ) => {
+    try {
+      reply(await handleDiscordCommand(this, command));
+    } catch {
+      reply("Unable to complete command in a reasonable time");
+    }
+  };
+
+  _handleDiscordAutocomplete = async (
+    focused: { name: string; value: string },
+    respond: (choices: DiscordCommandChoice[]) => void
+  ) => {
+    try {
+      respond(await getDiscordCommandChoices(this, focused));
+    } catch {
+      respond([]);
+    }
+  };
+
+  _handleErrorMessage = (message: string) => {
+    this.webhooks.send("error", { message });
+  };
+
+  _handleStartOSC = (
+    _: Electron.IpcMainEvent,
+    address: string,
+    port: string,
+    feedbackAddress: string,
+    feedbackPort: string
+  ) => this.startOSC(address, port, feedbackAddress, feedbackPort);
+
+  _handleStopOSC = () => this.stopOSC();
+
+  _handleOSCError = (message: string) => {
+    const windows = BrowserWindow.getAllWindows();
+    for (const window of windows) {
+      window.webContents.send("ERROR", message);
+      window.webContents.send("PLAYER_OSC_ENABLED", false);
+    }
+    this._handleErrorMessage(message);
+  };
+
+  _handleOSCFeedback = (event: RemoteEvent) => {
+    for (const message of getOSCFeedback(event)) {
+      this.oscFeedback?.send(message);
+    }
+  };
+
+  _handleGetRemoteURL = async () => this.getRemoteURL();
+
   _handleGetURL = (event: Electron.IpcMainEvent) => {
     event.returnValue = PLAYER_WINDOW_WEBPACK_ENTRY;
   };
@@ -103,6 +439,16 @@ export class PlayerManager {
     this.registeredViewId = viewId;
   };
 
+  _handleRemoteEvent = (
+    event: Electron.IpcMainEvent,
+    remoteEvent: RemoteEvent
+  ) => {
+    // Only forward events from the registered player view
+    if (event.sender.id === this.registeredViewId) {
+      this.emit("remoteEvent", remoteEvent);
+    }
+  };
+
   _handleResolveTrackSource = async (
     event: Electron.IpcMainInvokeEvent,
     source: string,
@@ -122,3 +468,17 @@ export class PlayerManager {
     );
   };
 }
+
+/** Bind and close a UDP socket to check the port is available */
+function checkUDPPort(port: number, address: string) {
+  return new Promise<void>((resolve, reject) => {
+    const socket = createSocket({ type: "udp4", reuseAddr: true });
+    socket.once("error", (err) => {
+      socket.close();
+      reject(err);
+    });
+    socket.bind(port, address, () => {
+      socket.close(() => resolve());
+    });
+  });
+}
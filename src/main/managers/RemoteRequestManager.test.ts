@@ -0,0 +1,91 @@
+import { IpcMainEvent, WebContents } from "electron";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RemoteReplyError, RemoteRequestManager } from "./RemoteRequestManager";
+
+vi.mock("electron", () => ({ ipcMain: { on: vi.fn(), off: vi.fn() } }));
+
+/** Create a view that records the request ids sent to it */
+function getView(id: number) {
+  const requestIds: string[] = [];
+  const view = {
+    id,
+    send: vi.fn((_: string, requestId: string) => {
+      requestIds.push(requestId);
+    }),
+  };
+  return { view: view as unknown as WebContents, requestIds };
+}
+
+function getEvent(senderId: number) {
+  return { sender: { id: senderId } } as IpcMainEvent;
+}
+
+describe("RemoteRequestManager", () => {
+  let requests: RemoteRequestManager;
+
+  beforeEach(() => {
+    requests = new RemoteRequestManager();
+  });
+
+  afterEach(() => {
+    requests.destroy();
+    vi.useRealTimers();
+  });
+
+  it("sends the request id followed by the arguments", () => {
+    const { view, requestIds } = getView(1);
+    requests.request(view, "CHANNEL", ["a", 2]).catch(() => {});
+    expect(view.send).toHaveBeenCalledWith("CHANNEL", requestIds[0], "a", 2);
+  });
+
+  it("resolves parallel requests answered out of order", async () => {
+    const { view, requestIds } = getView(1);
+    const first = requests.request(view, "CHANNEL");
+    const second = requests.request(view, "CHANNEL");
+    requests._handleReply(getEvent(1), requestIds[1], "second");
+    requests._handleReply(getEvent(1), requestIds[0], "first");
+    await expect(first).resolves.toBe("first");
+    await expect(second).resolves.toBe("second");
+    expect(requests._pending).toEqual({});
+  });
+
+  it("rejects when the view doesn't reply in time", async () => {
+    vi.useFakeTimers();
+    const { view } = getView(1);
+    const request = requests.request(view, "CHANNEL", [], { timeout: 100 });
+    vi.advanceTimersByTime(100);
+    await expect(request).rejects.toThrow("Request timeout");
+    expect(requests._pending).toEqual({});
+  });
+
+  it("rejects and forgets the request when aborted", async () => {
+    const { view } = getView(1);
+    const controller = new AbortController();
+    const request = requests.request(view, "CHANNEL", [], {
+      signal: controller.signal,
+    });
+    expect(Object.keys(requests._pending)).toHaveLength(1);
+    controller.abort();
+    await expect(request).rejects.toThrow("Request cancelled");
+    expect(requests._pending).toEqual({});
+  });
+
+  it("ignores replies from a different view", async () => {
+    const { view, requestIds } = getView(1);
+    const request = requests.request(view, "CHANNEL");
+    requests._handleReply(getEvent(2), requestIds[0], "other");
+    expect(Object.keys(requests._pending)).toHaveLength(1);
+    requests._handleReply(getEvent(1), requestIds[0], "reply");
+    await expect(request).resolves.toBe("reply");
+  });
+
+  it("rejects with the error replied by the view", async () => {
+    const { view, requestIds } = getView(1);
+    const request = requests.request(view, "CHANNEL");
+    const error = { statusCode: 404, error: "Not Found", message: "Missing" };
+    requests._handleReply(getEvent(1), requestIds[0], undefined, error);
+    await expect(request).rejects.toBeInstanceOf(RemoteReplyError);
+    await expect(request).rejects.toMatchObject({ reply: error });
+  });
+});
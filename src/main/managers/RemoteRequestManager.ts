@@ -0,0 +1,126 @@
+import { ipcMain, WebContents } from "electron";
+import { v4 as uuid } from "uuid";
+
+import { ReplyError } from "../../types/player";
+
+export interface RemoteRequestOptions {
+  /** Time to wait for a reply in milliseconds */
+  timeout?: number;
+  /** Signal to cancel the request before a reply is received */
+  signal?: AbortSignal;
+}
+
+/** Error replied by the view in response to a request */
+export class RemoteReplyError extends Error {
+  reply: ReplyError;
+
+  constructor(reply: ReplyError) {
+    super(reply.message);
+    // Restore the prototype chain so `instanceof` works when targeting ES5
+    Object.setPrototypeOf(this, RemoteReplyError.prototype);
+    this.reply = reply;
+  }
+}
+
+type PendingRequest = {
+  viewId: number;
+  resolve: (payload: unknown) => void;
+  reject: (reason: Error) => void;
+};
+
+/**
+ * Manager to send requests to the player view and wait for their replies
+ * Each request is tagged with a correlation id that the player echoes back
+ * so concurrent requests on the same channel receive the correct reply
+ */
+export class RemoteRequestManager {
+  /** Default time to wait for a reply in milliseconds */
+  defaultTimeout = 5000;
+  _pending: Record<string, PendingRequest> = {};
+
+  constructor() {
+    ipcMain.on("PLAYER_REMOTE_REPLY", this._handleReply);
+  }
+
+  destroy() {
+    ipcMain.off("PLAYER_REMOTE_REPLY", this._handleReply);
+    for (const pending of Object.values(this._pending)) {
+      pending.reject(new Error("Request cancelled"));
+    }
+    this._pending = {};
+  }
+
+  /**
+   * Send a request to a view
+   * The view receives the request id as the first argument followed by `args`
+   * @param view Web contents of the view to send the request to
+   * @param channel IPC channel of the request
+   * @param args Extra arguments to send with the request
+   * @returns The payload of the reply
+   */
+  request<T>(
+    view: WebContents,
+    channel: string,
+    args: unknown[] = [],
+    options: RemoteRequestOptions = {}
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const { timeout = this.defaultTimeout, signal } = options;
+      if (signal?.aborted) {
+        reject(new Error("Request cancelled"));
+        return;
+      }
+
+      const requestId = uuid();
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", handleAbort);
+        delete this._pending[requestId];
+      };
+
+      const handleAbort = () => {
+        cleanup();
+        reject(new Error("Request cancelled"));
+      };
+
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error("Request timeout"));
+      }, timeout);
+
+      signal?.addEventListener("abort", handleAbort);
+
+      this._pending[requestId] = {
+        viewId: view.id,
+        resolve: (payload) => {
+          cleanup();
+          resolve(payload as T);
+        },
+        reject: (reason) => {
+          cleanup();
+          reject(reason);
+        },
+      };
+
+      view.send(channel, requestId, ...args);
+    });
+  }
+
+  _handleReply = (
+    event: Electron.IpcMainEvent,
+    requestId: string,
+    payload: unknown,
+    error?: ReplyError
+  ) => {
+    const pending = this._pending[requestId];
+    // Ignore replies for unknown requests or from a different view
+    if (pending && pending.viewId === event.sender.id) {
+      if (error) {
+        pending.reject(new RemoteReplyError(error));
+      } else {
+        pending.resolve(payload);
+      }
+    }
+  };
+}
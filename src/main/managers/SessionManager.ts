@@ -14,7 +14,10 @@ export class SessionManager {
     this.playbackManager = new PlaybackManager(window);
     this.viewManager = new BrowserViewManagerMain(window);
     this.windowManager = new WindowManager(window);
-    this.playerManager = new PlayerManager();
+    this.playerManager = new PlayerManager(
+      this.viewManager,
+      this.playbackManager
+    );
   }
 
   destroy() {
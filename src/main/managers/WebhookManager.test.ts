@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { WebhookManager } from "./WebhookManager";
+
+function getTrack(id: string) {
+  return { id, title: id, url: `${id}.mp3`, progress: 0, duration: 10 };
+}
+
+describe("WebhookManager", () => {
+  function getWebhooks() {
+    const webhooks = new WebhookManager();
+    const send = vi.spyOn(webhooks, "send").mockImplementation(() => {});
+    const playlist = { id: "playlist", title: "Playlist" };
+    webhooks.handleRemoteEvent({
+      type: "playlist-track",
+      track: getTrack("a"),
+      playlist,
+    });
+    webhooks.handleRemoteEvent({ type: "playlist-playing", playing: true });
+    webhooks.handleRemoteEvent({
+      type: "playlist-progress",
+      progress: 0,
+      duration: 10,
+    });
+    webhooks.handleRemoteEvent({
+      type: "playlist-progress",
+      progress: 9,
+      duration: 10,
+    });
+    return { webhooks, send };
+  }
+
+  function getTrackStarts(send: ReturnType<typeof getWebhooks>["send"]) {
+    return send.mock.calls.filter(([event]) => event === "track-start");
+  }
+
+  it("sends a track start for each new track", () => {
+    const { webhooks, send } = getWebhooks();
+    webhooks.handleRemoteEvent({
+      type: "playlist-track",
+      track: getTrack("b"),
+      playlist: { id: "playlist", title: "Playlist" },
+    });
+    webhooks.handleRemoteEvent({
+      type: "playlist-progress",
+      progress: 0,
+      duration: 10,
+    });
+    expect(getTrackStarts(send).map(([, data]) => data)).toEqual([
+      {
+        track: { id: "a", title: "a", url: "a.mp3" },
+        playlist: { id: "playlist", title: "Playlist" },
+      },
+      {
+        track: { id: "b", title: "b", url: "b.mp3" },
+        playlist: { id: "playlist", title: "Playlist" },
+      },
+    ]);
+  });
+
+  it("sends a track start when the track repeats", () => {
+    const { webhooks, send } = getWebhooks();
+    webhooks.handleRemoteEvent({
+      type: "playlist-progress",
+      progress: 0,
+      duration: 10,
+    });
+    expect(getTrackStarts(send)).toHaveLength(2);
+  });
+
+  it("doesn't send a track start when the track is stopped", () => {
+    const { webhooks, send } = getWebhooks();
+    webhooks.handleRemoteEvent({ type: "playlist-playing", playing: false });
+    webhooks.handleRemoteEvent({
+      type: "playlist-progress",
+      progress: 0,
+      duration: 10,
+    });
+    expect(getTrackStarts(send)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,96 @@
+import fetch from "cross-fetch";
+
+import { PlaylistPlaybackReply, RemoteEvent } from "../../types/player";
+import { Webhook, WebhookEvent, WebhookPayload } from "../../types/remote";
+
+/**
+ * Manager to post playback and broadcast events to webhooks
+ * Failed deliveries are logged and not retried
+ */
+export class WebhookManager {
+  webhooks: Webhook[] = [];
+  /** Time to wait for a webhook to respond in milliseconds */
+  timeout = 5000;
+  _track?: PlaylistPlaybackReply["track"];
+  _playlist?: PlaylistPlaybackReply["playlist"];
+  _progress = 0;
+  _playing = false;
+
+  send(event: WebhookEvent, data: unknown) {
+    const webhooks = this.webhooks.filter((webhook) =>
+      webhook.events.includes(event)
+    );
+    if (webhooks.length === 0) {
+      return;
+    }
+    const payload: WebhookPayload = {
+      event,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    const body = JSON.stringify(payload);
+    for (const webhook of webhooks) {
+      this._post(webhook.url, body);
+    }
+  }
+
+  handleRemoteEvent = (event: RemoteEvent) => {
+    if (event.type === "playlist-track") {
+      const { track, playlist } = event;
+      if (playlist && playlist.id !== this._playlist?.id) {
+        this.send("playlist-change", { playlist });
+      }
+      if (track && track.id !== this._track?.id) {
+        this._progress = 0;
+        this._sendTrackStart(track, playlist);
+      }
+      this._track = track;
+      this._playlist = playlist;
+    } else if (event.type === "playlist-progress") {
+      // A track playing from the start again without changing is either
+      // repeating or was played again so it also starts
+      if (event.progress === 0 && this._progress > 0 && this._playing) {
+        this._sendTrackStart(this._track, this._playlist);
+      }
+      this._progress = event.progress;
+    } else if (event.type === "playlist-playing") {
+      this._playing = event.playing;
+    } else if (event.type === "soundboard-play") {
+      const { id, title, url } = event.sound;
+      this.send("soundboard-play", { sound: { id, title, url } });
+    }
+  };
+
+  _sendTrackStart(
+    track?: PlaylistPlaybackReply["track"],
+    playlist?: PlaylistPlaybackReply["playlist"]
+  ) {
+    if (track) {
+      this.send("track-start", {
+        track: { id: track.id, title: track.title, url: track.url },
+        playlist,
+      });
+    }
+  }
+
+  async _post(url: string, body: string) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        console.error(`Webhook ${url} responded with ${response.status}`);
+      }
+    } catch (e) {
+      // Errors aren't sent to the window as they would trigger `error` webhooks
+      console.error(`Unable to send webhook ${url}: ${e.message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import Fastify from "fastify";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { registerAuth } from "./auth";
+
+describe("registerAuth", () => {
+  let fastify: ReturnType<typeof Fastify>;
+
+  beforeEach(async () => {
+    fastify = Fastify();
+    const manager = {
+      fastify,
+      remoteAuthEnabled: true,
+      remoteKeys: [
+        { id: "1", name: "Read", key: "read-key", scopes: ["read"] },
+      ],
+    } as unknown as PlayerManager;
+    registerAuth(manager);
+    fastify.get("/v1/playlist", () => ({}));
+    fastify.post("/v1/playlist/play", () => ({}));
+    fastify.get("/v1/openapi.json", { config: { public: true } }, () => ({}));
+    fastify.get("/", () => "remote");
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it("requires a key for api routes", async () => {
+    const response = await fastify.inject("/v1/playlist");
+    expect(response.statusCode).toBe(401);
+  });
+
+  it("requires a key when the path is encoded", async () => {
+    const response = await fastify.inject("/%761/playlist");
+    expect(response.statusCode).toBe(401);
+  });
+
+  it("accepts a key as a bearer token or query", async () => {
+    const header = await fastify.inject({
+      url: "/v1/playlist",
+      headers: { authorization: "Bearer read-key" },
+    });
+    expect(header.statusCode).toBe(200);
+    const query = await fastify.inject("/v1/playlist?token=read-key");
+    expect(query.statusCode).toBe(200);
+  });
+
+  it("checks the scope of the key", async () => {
+    const response = await fastify.inject({
+      method: "POST",
+      url: "/%761/playlist/play",
+      headers: { authorization: "Bearer read-key" },
+    });
+    expect(response.statusCode).toBe(403);
+  });
+
+  it("allows public routes and pages outside of the api", async () => {
+    const openapi = await fastify.inject("/v1/openapi.json");
+    expect(openapi.statusCode).toBe(200);
+    const page = await fastify.inject("/");
+    expect(page.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,79 @@
+import { FastifyContextConfig, FastifyRequest } from "fastify";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { RemoteScope } from "../../types/remote";
+import { ReplyError } from ".";
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    /** Scope an API key needs to access this route */
+    scope?: RemoteScope;
+    /** Allow access to this route without an API key */
+    public?: boolean;
+  }
+}
+
+const UNAUTHORIZED_ERROR: ReplyError = {
+  statusCode: 401,
+  error: "Unauthorized",
+  message: "A valid API key is required",
+};
+
+const FORBIDDEN_ERROR: ReplyError = {
+  statusCode: 403,
+  error: "Forbidden",
+  message: "This API key doesn't have permission to access this route",
+};
+
+/**
+ * Get the API key for a request
+ * Keys are sent as a bearer token with a `token` query fallback
+ * for clients that can't set headers such as `EventSource`
+ */
+export function getRequestToken(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  const query = request.query as Record<string, string> | undefined;
+  return query?.token;
+}
+
+/**
+ * Get the scope needed for a route
+ * Routes without an explicit scope need `read` for fetching
+ * and `playback` for everything else
+ */
+export function getRouteScope(
+  method: string,
+  config?: FastifyContextConfig
+): RemoteScope {
+  if (config?.scope) {
+    return config.scope;
+  }
+  return method === "GET" || method === "HEAD" ? "read" : "playback";
+}
+
+export function registerAuth(manager: PlayerManager) {
+  manager.fastify.addHook("onRequest", async (request, reply) => {
+    // Use the matched route as the raw url can encode the path
+    // e.g. `/%761/playlist` is routed to `/v1/playlist`
+    const url = request.routeOptions.url;
+    if (
+      !manager.remoteAuthEnabled ||
+      !url?.startsWith("/v1/") ||
+      request.routeOptions.config?.public
+    ) {
+      return;
+    }
+    const token = getRequestToken(request);
+    const key = token && manager.remoteKeys.find((key) => key.key === token);
+    if (!key) {
+      return reply.status(401).send(UNAUTHORIZED_ERROR);
+    }
+    const scope = getRouteScope(request.method, request.routeOptions.config);
+    if (!key.scopes.includes(scope)) {
+      return reply.status(403).send(FORBIDDEN_ERROR);
+    }
+  });
+}
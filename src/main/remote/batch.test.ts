@@ -0,0 +1,75 @@
+import { Type } from "@sinclair/typebox";
+import Fastify, { FastifyInstance } from "fastify";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { registerBatch } from "./batch";
+
+vi.mock("electron", () => ({}));
+
+describe("registerBatch", () => {
+  let fastify: FastifyInstance;
+
+  beforeEach(async () => {
+    fastify = Fastify();
+    const manager = {
+      fastify,
+      remoteAuthEnabled: false,
+      remoteKeys: [],
+    } as unknown as PlayerManager;
+    registerBatch(manager);
+    fastify.get("/v1/playlist/:id", (request) => request.params);
+    fastify.post(
+      "/v1/stop-all",
+      {
+        schema: {
+          body: Type.Object({
+            fade: Type.Integer({ minimum: 0, default: 1000 }),
+          }),
+        },
+      },
+      (request) => request.body
+    );
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  function batch(url: string) {
+    return fastify.inject({
+      method: "POST",
+      url: "/v1/batch",
+      payload: { steps: [{ method: "GET", url }] },
+    });
+  }
+
+  it("runs each step", async () => {
+    const response = await batch("/v1/playlist/a%20b");
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      results: [{ statusCode: 200, body: { id: "a b" } }],
+    });
+  });
+
+  it("rejects steps with malformed urls", async () => {
+    const response = await batch("/v1/playlist/%E0");
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toBe(
+      "Step 0: Malformed url /v1/playlist/%E0"
+    );
+  });
+
+  it("sends an empty body for steps without one", async () => {
+    const response = await fastify.inject({
+      method: "POST",
+      url: "/v1/batch",
+      payload: { steps: [{ method: "POST", url: "/v1/stop-all" }] },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      results: [{ statusCode: 200, body: { fade: 1000 } }],
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { Static, TSchema, Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { FastifyRequest, RouteOptions } from "fastify";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { getRequestToken, getRouteScope } from "./auth";
+import { getReplySignal, ReplyError } from ".";
+
+type BatchRoute = {
+  method: string;
+  segments: string[];
+  options: RouteOptions;
+};
+
+const BATCH_URL = "/v1/batch";
+/** Routes that can't be run as a step */
+const EXCLUDED_URLS = [
+  BATCH_URL,
+  "/v1/events",
+  "/v1/now-playing/events",
+];
+
+const BatchStep = Type.Object({
+  method: Type.Union([
+    Type.Literal("GET"),
+    Type.Literal("POST"),
+    Type.Literal("PUT"),
+    Type.Literal("PATCH"),
+    Type.Literal("DELETE"),
+  ]),
+  url: Type.String({ pattern: "^/v1/" }),
+  body: Type.Optional(Type.Unknown()),
+  delay: Type.Optional(
+    Type.Integer({
+      minimum: 0,
+      maximum: 60000,
+      description: "Time to wait before running this step in milliseconds",
+    })
+  ),
+});
+export type BatchStepType = Static<typeof BatchStep>;
+
+const BatchRequest = Type.Object({
+  steps: Type.Array(BatchStep, { minItems: 1, maxItems: 50 }),
+  continueOnError: Type.Optional(Type.Boolean()),
+});
+export type BatchRequestType = Static<typeof BatchRequest>;
+
+const BatchResult = Type.Object({
+  statusCode: Type.Number(),
+  body: Type.Unknown(),
+});
+
+const BatchReply = Type.Object({
+  results: Type.Array(BatchResult),
+});
+export type BatchReplyType = Static<typeof BatchReply>;
+
+/** Split a url into its path segments ignoring any trailing slash */
+function getSegments(path: string) {
+  return path.split("/").filter((segment) => segment !== "");
+}
+
+/**
+ * Find the route for a step
+ * Static segments take priority over parameters like the fastify router
+ */
+function findRoute(routes: BatchRoute[], method: string, path: string) {
+  const segments = getSegments(path);
+  let match: { route: BatchRoute; params: Record<string, string> } | undefined;
+  let matchParams = Infinity;
+  for (const route of routes) {
+    if (
+      route.method !== method ||
+      route.segments.length !== segments.length
+    ) {
+      continue;
+    }
+    const params: Record<string, string> = {};
+    const matches = route.segments.every((segment, i) => {
+      if (segment.startsWith(":")) {
+        params[segment.slice(1)] = decodeURIComponent(segments[i]);
+        return true;
+      }
+      return segment === segments[i];
+    });
+    const paramCount = Object.keys(params).length;
+    if (matches && paramCount < matchParams) {
+      match = { route, params };
+      matchParams = paramCount;
+    }
+  }
+  return match;
+}
+
+/**
+ * Validate part of a step against its route schema
+ * Values are converted and defaults filled in first to match the
+ * coercion fastify does
+ * @returns An error message or undefined if the value is valid
+ */
+function validate(schema: unknown, value: unknown, name: string) {
+  if (!schema) {
+    return undefined;
+  }
+  const converted = Value.Default(
+    schema as TSchema,
+    Value.Convert(schema as TSchema, Value.Clone(value))
+  );
+  const error = Value.Errors(schema as TSchema, converted).First();
+  if (error) {
+    return `${name}${error.path} ${error.message}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check that a step can be run with the API key of the batch request
+ * @returns An error message or undefined if the step is valid
+ */
+function checkStep(
+  manager: PlayerManager,
+  routes: BatchRoute[],
+  request: FastifyRequest,
+  step: BatchStepType
+) {
+  const [path, search = ""] = step.url.split("?");
+  // Route params are decoded so malformed escapes can't be matched
+  try {
+    decodeURIComponent(path);
+  } catch {
+    return `Malformed url ${step.url}`;
+  }
+  // Use the fastify router to check the route exists as trailing slashes
+  // are only allowed on some routes
+  const match = findRoute(routes, step.method, path);
+  if (!match || !manager.fastify.hasRoute({ method: step.method, url: path })) {
+    return `Route ${step.method}:${path} not found`;
+  }
+  const { options } = match.route;
+  if (manager.remoteAuthEnabled && !options.config?.public) {
+    const token = getRequestToken(request);
+    const key = manager.remoteKeys.find((key) => key.key === token);
+    const scope = getRouteScope(step.method, options.config);
+    if (!key?.scopes.includes(scope)) {
+      return `API key needs the ${scope} scope`;
+    }
+  }
+  const query = Object.fromEntries(new URLSearchParams(search));
+  return (
+    validate(options.schema?.params, match.params, "params") ||
+    validate(options.schema?.querystring, query, "querystring") ||
+    validate(options.schema?.body, getStepBody(step), "body")
+  );
+}
+
+/**
+ * Steps without a body send an empty object so routes where every
+ * option has a default can be called without one
+ */
+function getStepBody(step: BatchStepType) {
+  if (step.body === undefined && step.method !== "GET") {
+    return {};
+  }
+  return step.body;
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+function parseBody(body: string) {
+  try {
+    return body ? JSON.parse(body) : undefined;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Run an ordered list of remote requests in a single call
+ * Every step is checked against its route schema before any are run
+ * This needs to be registered before any routes so they can be collected
+ */
+export function registerBatch(manager: PlayerManager) {
+  const routes: BatchRoute[] = [];
+  const seen = new Set<string>();
+
+  manager.fastify.addHook("onRoute", (options) => {
+    const methods = Array.isArray(options.method)
+      ? options.method
+      : [options.method];
+    for (const method of methods) {
+      const segments = getSegments(options.url);
+      const url = `/${segments.join("/")}`;
+      const key = `${method} ${url}`;
+      if (
+        method === "HEAD" ||
+        !url.startsWith("/v1/") ||
+        EXCLUDED_URLS.includes(url) ||
+        // Prefixed routes are registered with and without a trailing slash
+        seen.has(key)
+      ) {
+        continue;
+      }
+      seen.add(key);
+      routes.push({ method, segments, options });
+    }
+  });
+
+  manager.fastify.post<{
+    Body: BatchRequestType;
+    Reply: BatchReplyType | ReplyError;
+  }>(
+    BATCH_URL,
+    {
+      schema: {
+        summary: "Run multiple requests in order",
+        description:
+          "Every step is validated before any are run. " +
+          "Steps run one after another and stop at the first error " +
+          "unless `continueOnError` is set. " +
+          "Each step also needs its own scope when API keys are required.",
+        body: BatchRequest,
+        response: {
+          200: BatchReply,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { steps, continueOnError } = request.body;
+      for (let i = 0; i < steps.length; i++) {
+        const message = checkStep(manager, routes, request, steps[i]);
+        if (message) {
+          reply.status(400).send({
+            statusCode: 400,
+            error: "Bad Request",
+            message: `Step ${i}: ${message}`,
+          });
+          return;
+        }
+      }
+
+      const signal = getReplySignal(reply);
+      // Forward the API key as a header in case it was sent in the query
+      const token = getRequestToken(request);
+      const headers = token ? { authorization: `Bearer ${token}` } : {};
+      const results: BatchReplyType["results"] = [];
+      for (const step of steps) {
+        if (step.delay) {
+          await wait(step.delay, signal);
+        }
+        // Stop once the client is gone but still end the reply
+        // with the steps that were run
+        if (signal.aborted) {
+          break;
+        }
+        const response = await manager.fastify.inject({
+          method: step.method,
+          url: step.url,
+          payload: getStepBody(step) as string | object | undefined,
+          headers,
+        });
+        results.push({
+          statusCode: response.statusCode,
+          body: parseBody(response.body),
+        });
+        if (response.statusCode >= 400 && !continueOnError) {
+          break;
+        }
+      }
+      reply.status(200).send({ results });
+    }
+  );
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { getDiscordCommandChoices, handleDiscordCommand } from "./discord";
+
+vi.mock("electron", () => ({}));
+
+function getManager() {
+  const view = { send: vi.fn() };
+  const request = vi.fn(async (_: unknown, channel: string) => {
+    if (channel === "PLAYER_REMOTE_PLAYLIST_GET_ALL_REQUEST") {
+      return {
+        playlists: [
+          { id: "p1", title: "Forest" },
+          { id: "p2", title: "Tavern" },
+        ],
+      };
+    }
+    return { sounds: [{ id: "s1", title: "Thunder" }] };
+  });
+  const manager = {
+    getView: () => view,
+    requests: { request },
+    nowPlaying: {
+      nowPlaying: {
+        playing: true,
+        track: { id: "t1", title: "Birds" },
+        playlist: { id: "p1", title: "Forest" },
+        sounds: [],
+      },
+    },
+  } as unknown as PlayerManager;
+  return { manager, view, request };
+}
+
+describe("handleDiscordCommand", () => {
+  it("plays a playlist by id or title", async () => {
+    const { manager, view } = getManager();
+    expect(
+      await handleDiscordCommand(manager, {
+        name: "play",
+        options: { playlist: "p2" },
+      })
+    ).toBe("Playing Tavern");
+    expect(
+      await handleDiscordCommand(manager, {
+        name: "play",
+        options: { playlist: "forest" },
+      })
+    ).toBe("Playing Forest");
+    expect(view.send.mock.calls).toEqual([
+      ["PLAYER_REMOTE_PLAYLIST_PLAY", "p2"],
+      ["PLAYER_REMOTE_PLAYLIST_PLAY", "p1"],
+    ]);
+  });
+
+  it("replies when the playlist can't be found", async () => {
+    const { manager, view } = getManager();
+    expect(
+      await handleDiscordCommand(manager, {
+        name: "play",
+        options: { playlist: "Ocean" },
+      })
+    ).toBe("Unable to find playlist: Ocean");
+    expect(view.send).not.toHaveBeenCalled();
+  });
+
+  it("plays a sound", async () => {
+    const { manager, view } = getManager();
+    expect(
+      await handleDiscordCommand(manager, {
+        name: "sound",
+        options: { sound: "s1" },
+      })
+    ).toBe("Playing Thunder");
+    expect(view.send).toHaveBeenCalledWith(
+      "PLAYER_REMOTE_SOUNDBOARD_PLAY",
+      "s1",
+      {}
+    );
+  });
+
+  it("clamps the volume", async () => {
+    const { manager, view } = getManager();
+    expect(
+      await handleDiscordCommand(manager, {
+        name: "volume",
+        options: { volume: 150 },
+      })
+    ).toBe("Set the volume to 100%");
+    expect(view.send).toHaveBeenCalledWith(
+      "PLAYER_REMOTE_PLAYLIST_PLAYBACK_VOLUME",
+      1
+    );
+  });
+
+  it("skips and shows what is playing", async () => {
+    const { manager, view } = getManager();
+    expect(
+      await handleDiscordCommand(manager, { name: "skip", options: {} })
+    ).toBe("Skipped to the next track");
+    expect(view.send).toHaveBeenCalledWith(
+      "PLAYER_REMOTE_PLAYLIST_PLAYBACK_NEXT"
+    );
+    expect(
+      await handleDiscordCommand(manager, { name: "nowplaying", options: {} })
+    ).toBe("Birds - Forest");
+  });
+
+  it("replies to unknown commands and a missing player", async () => {
+    const { manager } = getManager();
+    expect(
+      await handleDiscordCommand(manager, { name: "dance", options: {} })
+    ).toBe("Unknown command: dance");
+    manager.getView = () => undefined;
+    expect(
+      await handleDiscordCommand(manager, { name: "skip", options: {} })
+    ).toBe("Unable to connect to Kenku FM");
+  });
+});
+
+describe("getDiscordCommandChoices", () => {
+  it("filters the choices by title", async () => {
+    const { manager } = getManager();
+    expect(
+      await getDiscordCommandChoices(manager, {
+        name: "playlist",
+        value: "TAV",
+      })
+    ).toEqual([{ name: "Tavern", value: "p2" }]);
+    expect(
+      await getDiscordCommandChoices(manager, { name: "sound", value: "" })
+    ).toEqual([{ name: "Thunder", value: "s1" }]);
+    expect(
+      await getDiscordCommandChoices(manager, { name: "volume", value: "" })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { PlayerManager } from "../managers/PlayerManager";
+import { getNowPlayingText } from "../managers/NowPlayingManager";
+import {
+  DiscordCommand,
+  DiscordCommandChoice,
+} from "../broadcast/DiscordBroadcast";
+import { PlaylistsReply, SoundboardsReply } from "../../types/player";
+
+type Item = { id: string; title: string };
+
+/** Discord needs autocomplete choices within three seconds */
+const AUTOCOMPLETE_TIMEOUT = 2500;
+/** Maximum number of autocomplete choices allowed by Discord */
+const MAX_CHOICES = 25;
+
+/**
+ * Find an item from a command option
+ * Autocompleted options are ids and typed options are matched by title
+ */
+function findItem<T extends Item>(items: T[], value: unknown) {
+  const query = String(value);
+  return (
+    items.find((item) => item.id === query) ||
+    items.find((item) => item.title.toLowerCase() === query.toLowerCase())
+  );
+}
+
+function getChoices(items: Item[], query: string): DiscordCommandChoice[] {
+  const lowerQuery = query.toLowerCase();
+  return items
+    .filter((item) => item.title.toLowerCase().includes(lowerQuery))
+    .slice(0, MAX_CHOICES)
+    .map((item) => ({ name: item.title.slice(0, 100), value: item.id }));
+}
+
+function getPlaylists(
+  manager: PlayerManager,
+  view: Electron.WebContents,
+  timeout?: number
+) {
+  return manager.requests.request<PlaylistsReply>(
+    view,
+    "PLAYER_REMOTE_PLAYLIST_GET_ALL_REQUEST",
+    [],
+    { timeout }
+  );
+}
+
+function getSoundboards(
+  manager: PlayerManager,
+  view: Electron.WebContents,
+  timeout?: number
+) {
+  return manager.requests.request<SoundboardsReply>(
+    view,
+    "PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST",
+    [],
+    { timeout }
+  );
+}
+
+/**
+ * Run a `/kenku` slash command in the player view
+ * @returns The message to reply to the command with
+ */
+export async function handleDiscordCommand(
+  manager: PlayerManager,
+  { name, options }: DiscordCommand
+): Promise<string> {
+  const view = manager.getView();
+  if (!view) {
+    return "Unable to connect to Kenku FM";
+  }
+  switch (name) {
+    case "play": {
+      const { playlists } = await getPlaylists(manager, view);
+      const playlist = findItem(playlists, options.playlist);
+      if (!playlist) {
+        return `Unable to find playlist: ${options.playlist}`;
+      }
+      view.send("PLAYER_REMOTE_PLAYLIST_PLAY", playlist.id);
+      return `Playing ${playlist.title}`;
+    }
+    case "skip":
+      view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_NEXT");
+      return "Skipped to the next track";
+    case "volume": {
+      const volume = Math.max(Math.min(Number(options.volume), 100), 0);
+      view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_VOLUME", volume / 100);
+      return `Set the volume to ${volume}%`;
+    }
+    case "sound": {
+      const { sounds } = await getSoundboards(manager, view);
+      const sound = findItem(sounds, options.sound);
+      if (!sound) {
+        return `Unable to find sound: ${options.sound}`;
+      }
+      view.send("PLAYER_REMOTE_SOUNDBOARD_PLAY", sound.id, {});
+      return `Playing ${sound.title}`;
+    }
+    case "nowplaying":
+      return (
+        getNowPlayingText(manager.nowPlaying.nowPlaying) || "Nothing is playing"
+      );
+    default:
+      return `Unknown command: ${name}`;
+  }
+}
+
+/** Get autocomplete choices for the focused option of a slash command */
+export async function getDiscordCommandChoices(
+  manager: PlayerManager,
+  focused: { name: string; value: string }
+): Promise<DiscordCommandChoice[]> {
+  const view = manager.getView();
+  if (!view) {
+    return [];
+  }
+  if (focused.name === "playlist") {
+    const { playlists } = await getPlaylists(
+      manager,
+      view,
+      AUTOCOMPLETE_TIMEOUT
+    );
+    return getChoices(playlists, focused.value);
+  }
+  if (focused.name === "sound") {
+    const { sounds } = await getSoundboards(
+      manager,
+      view,
+      AUTOCOMPLETE_TIMEOUT
+    );
+    return getChoices(sounds, focused.value);
+  }
+  return [];
+}
@@ -0,0 +1,240 @@
+/**
+ * Self-contained docs page for the remote API
+ * Everything is inlined so the page works without an internet connection
+ */
+export const docsPage = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Kenku FM Remote API</title>
+    <style>
+      body {
+        margin: 0;
+        padding: 24px;
+        background: #1e2231;
+        color: #fff;
+        font-family: Roboto, Helvetica, Arial, sans-serif;
+      }
+      main {
+        max-width: 960px;
+        margin: 0 auto;
+      }
+      h2 {
+        text-transform: capitalize;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.12);
+        padding-bottom: 8px;
+      }
+      details {
+        background: rgba(255, 255, 255, 0.05);
+        border-radius: 8px;
+        margin-bottom: 8px;
+      }
+      summary {
+        cursor: pointer;
+        padding: 12px;
+        font-family: monospace;
+        font-size: 14px;
+      }
+      .method {
+        display: inline-block;
+        width: 64px;
+        font-weight: bold;
+        text-transform: uppercase;
+      }
+      .get { color: #61affe; }
+      .post { color: #49cc90; }
+      .put { color: #fca130; }
+      .patch { color: #50e3c2; }
+      .delete { color: #f93e3e; }
+      .operation {
+        padding: 0 12px 12px;
+      }
+      .muted {
+        color: rgba(255, 255, 255, 0.7);
+      }
+      pre, textarea, input {
+        background: rgba(0, 0, 0, 0.3);
+        color: #fff;
+        border: 1px solid rgba(255, 255, 255, 0.12);
+        border-radius: 4px;
+        padding: 8px;
+        font-family: monospace;
+        font-size: 13px;
+        box-sizing: border-box;
+      }
+      pre {
+        overflow: auto;
+        margin: 4px 0 12px;
+      }
+      textarea {
+        width: 100%;
+        min-height: 96px;
+      }
+      button {
+        background: #fff;
+        border: none;
+        border-radius: 4px;
+        padding: 6px 16px;
+        margin-top: 8px;
+        cursor: pointer;
+      }
+      label {
+        display: block;
+        margin: 8px 0 4px;
+      }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1 id="title">Kenku FM Remote API</h1>
+      <p class="muted">
+        Download the <a href="openapi.json" style="color: inherit">OpenAPI document</a>.
+      </p>
+      <label for="token">API Key</label>
+      <input id="token" placeholder="Only needed when API keys are required" size="40" />
+      <div id="operations"></div>
+    </main>
+    <script>
+      var tokenInput = document.getElementById("token");
+      tokenInput.value = localStorage.getItem("token") || "";
+      tokenInput.addEventListener("change", function () {
+        localStorage.setItem("token", tokenInput.value);
+      });
+
+      function element(tag, className, text) {
+        var el = document.createElement(tag);
+        if (className) el.className = className;
+        if (text !== undefined) el.textContent = text;
+        return el;
+      }
+
+      function json(value) {
+        return JSON.stringify(value, null, 2);
+      }
+
+      function renderOperation(path, method, operation) {
+        var details = element("details");
+        var summary = element("summary");
+        summary.appendChild(element("span", "method " + method, method));
+        summary.appendChild(document.createTextNode(path + " "));
+        if (operation.summary) {
+          summary.appendChild(element("span", "muted", operation.summary));
+        }
+        details.appendChild(summary);
+
+        var body = element("div", "operation");
+        if (operation.description) {
+          body.appendChild(element("p", null, operation.description));
+        }
+        if (operation["x-scope"]) {
+          body.appendChild(
+            element("p", "muted", "Scope: " + operation["x-scope"])
+          );
+        }
+
+        var inputs = {};
+        operation.parameters.forEach(function (parameter) {
+          body.appendChild(
+            element("label", null, parameter.name + " (" + parameter.in + ")")
+          );
+          var input = element("input");
+          inputs[parameter.name] = input;
+          body.appendChild(input);
+        });
+
+        var bodyInput;
+        if (operation.requestBody) {
+          var schema = operation.requestBody.content["application/json"].schema;
+          body.appendChild(element("label", null, "Request Body"));
+          body.appendChild(element("pre", null, json(schema)));
+          bodyInput = element("textarea");
+          body.appendChild(bodyInput);
+        }
+
+        Object.keys(operation.responses).forEach(function (status) {
+          var response = operation.responses[status];
+          body.appendChild(
+            element("label", null, status + " " + response.description)
+          );
+          if (response.content && status !== "default") {
+            body.appendChild(
+              element("pre", null, json(response.content["application/json"].schema))
+            );
+          }
+        });
+
+        var button = element("button", null, "Send Request");
+        var result = element("pre");
+        result.hidden = true;
+        button.addEventListener("click", function () {
+          var url = path.replace(/{(\\w+)}/g, function (_, name) {
+            return encodeURIComponent(inputs[name].value);
+          });
+          var query = operation.parameters
+            .filter(function (parameter) {
+              return parameter.in === "query" && inputs[parameter.name].value;
+            })
+            .map(function (parameter) {
+              return parameter.name + "=" + encodeURIComponent(inputs[parameter.name].value);
+            });
+          if (query.length > 0) {
+            url += "?" + query.join("&");
+          }
+          var headers = {};
+          if (tokenInput.value) {
+            headers.Authorization = "Bearer " + tokenInput.value;
+          }
+          if (bodyInput) {
+            headers["Content-Type"] = "application/json";
+          }
+          fetch(url, {
+            method: method.toUpperCase(),
+            headers: headers,
+            body: bodyInput ? bodyInput.value : undefined,
+          })
+            .then(function (response) {
+              return response.text().then(function (text) {
+                result.textContent = response.status + "\\n" + text;
+              });
+            })
+            .catch(function (error) {
+              result.textContent = String(error);
+            })
+            .finally(function () {
+              result.hidden = false;
+            });
+        });
+        body.appendChild(button);
+        body.appendChild(result);
+
+        details.appendChild(body);
+        return details;
+      }
+
+      fetch("openapi.json")
+        .then(function (response) {
+          return response.json();
+        })
+        .then(function (document_) {
+          document.getElementById("title").textContent =
+            document_.info.title + " " + document_.info.version;
+          var container = document.getElementById("operations");
+          document_.tags.forEach(function (tag) {
+            container.appendChild(element("h2", null, tag.name));
+            Object.keys(document_.paths).forEach(function (path) {
+              var methods = document_.paths[path];
+              Object.keys(methods).forEach(function (method) {
+                if (methods[method].tags.indexOf(tag.name) !== -1) {
+                  container.appendChild(
+                    renderOperation(path, method, methods[method])
+                  );
+                }
+              });
+            });
+          });
+        });
+    </script>
+  </body>
+</html>
+`;
@@ -0,0 +1,53 @@
+import { ServerResponse } from "http";
+
+import { FastifyInstance, FastifyReply } from "fastify";
+
+/** Interval to send a comment to keep idle connections open */
+const KEEP_ALIVE_INTERVAL = 15000;
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Create a function to reply with server-sent event streams
+ * `subscribe` is called with a function to send events on the stream
+ * and returns a function to unsubscribe when the stream closes
+ */
+export function createEventStream(fastify: FastifyInstance) {
+  const streams = new Set<ServerResponse>();
+
+  // Event streams are never idle so end them to allow the server to close
+  fastify.addHook("preClose", (done) => {
+    for (const stream of streams) {
+      stream.end();
+    }
+    done();
+  });
+
+  return (reply: FastifyReply, subscribe: (send: SendEvent) => () => void) => {
+    reply.hijack();
+
+    const stream = reply.raw;
+    stream.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    stream.write("retry: 1000\n\n");
+    streams.add(stream);
+
+    const unsubscribe = subscribe((event, data) => {
+      stream.write(`event: ${event}\n`);
+      stream.write(`data: ${JSON.stringify(data)}\n\n`);
+    });
+
+    const keepAlive = setInterval(() => {
+      stream.write(": keep-alive\n\n");
+    }, KEEP_ALIVE_INTERVAL);
+
+    stream.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+      streams.delete(stream);
+    });
+  };
+}
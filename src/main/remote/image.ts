@@ -0,0 +1,221 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback, FastifyReply } from "fastify";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { RemoteReplyError } from "../managers/RemoteRequestManager";
+import {
+  IMAGE_EXTENSIONS,
+  LoadedImage,
+  UnsupportedImageError,
+} from "../managers/ImageManager";
+import { getReplySignal, VIEW_ERROR } from ".";
+import { RemoteImageOptions, RemoteImageSource } from "../../types/player";
+
+export const ImageQuery = Type.Object({
+  width: Type.Optional(Type.Integer({ minimum: 1, maximum: 2048 })),
+  height: Type.Optional(Type.Integer({ minimum: 1, maximum: 2048 })),
+  title: Type.Optional(
+    Type.Boolean({ description: "Overlay the title on the image" })
+  ),
+});
+export type ImageQueryType = Static<typeof ImageQuery>;
+
+export const IMAGE_DESCRIPTION =
+  "Replies with the image data. " +
+  "Images are cropped to fill the size when both `width` and `height` " +
+  "are set, resized images and images with a title are sent as PNG.";
+
+/** Match the extensions of image files in either case */
+const imageExtensionPattern = IMAGE_EXTENSIONS.map((extension) =>
+  extension
+    .slice(1)
+    .split("")
+    .map((char) => `[${char}${char.toUpperCase()}]`)
+    .join("")
+).join("|");
+
+/**
+ * Background set from the remote, either the name of a built-in
+ * background or the url of an image
+ */
+export const RemoteBackground = Type.String({
+  pattern:
+    "^([^:/\\\\]+|https?://\\S+|data:image/[\\s\\S]+|" +
+    `file://[\\s\\S]+\\.(${imageExtensionPattern}))$`,
+  description:
+    "Name of a built-in background or a `http`, `https`, " +
+    "`data:image` or image `file` url",
+});
+
+/** Raw images can be SVGs so stop them from running scripts */
+const IMAGE_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+
+/** Built-in backgrounds are only bundled with the player view */
+function isBuiltInBackground(background: string) {
+  return !/^(file|data|https?):/.test(background);
+}
+
+/**
+ * Reply with the artwork of a playlist or soundboard
+ * Images are sent as is unless they need to be resized or have a title
+ * in which case the player view renders them
+ */
+export async function replyWithImage(
+  manager: PlayerManager,
+  reply: FastifyReply,
+  background: string,
+  title: string,
+  query: ImageQueryType
+) {
+  const options: RemoteImageOptions = {
+    width: query.width,
+    height: query.height,
+    title: query.title ? title : undefined,
+  };
+
+  let source: RemoteImageSource;
+  if (isBuiltInBackground(background)) {
+    source = { background };
+  } else {
+    let image: LoadedImage | undefined;
+    try {
+      image = await manager.images.load(background);
+    } catch (e) {
+      if (e instanceof UnsupportedImageError) {
+        reply.status(415).send({
+          statusCode: 415,
+          error: "Unsupported Media Type",
+          message: e.message,
+        });
+        return;
+      }
+      throw e;
+    }
+    if (!image) {
+      reply.status(404).send({
+        statusCode: 404,
+        error: "Not Found",
+        message: "Unable to load image",
+      });
+      return;
+    }
+    if (!options.width && !options.height && !options.title) {
+      reply
+        .status(200)
+        .header("Content-Security-Policy", IMAGE_SECURITY_POLICY)
+        .type(image.contentType)
+        .send(image.data);
+      return;
+    }
+    source = { data: image.data, contentType: image.contentType };
+  }
+
+  const view = manager.getView();
+  if (!view) {
+    reply.status(503).send(VIEW_ERROR);
+    return;
+  }
+  try {
+    const data = await manager.requests.request<Uint8Array>(
+      view,
+      "PLAYER_REMOTE_IMAGE_RENDER",
+      [source, options],
+      { signal: getReplySignal(reply) }
+    );
+    reply.status(200).type("image/png").send(Buffer.from(data));
+  } catch (e) {
+    if (e instanceof RemoteReplyError) {
+      reply.status(e.reply.statusCode).send(e.reply);
+    } else {
+      reply.status(408).send({
+        statusCode: 408,
+        error: "Request Timeout",
+        message: "Unable to render image in a reasonable time",
+      });
+    }
+  }
+}
+
+const ImageParams = Type.Object({
+  id: Type.String(),
+});
+type ImageParamsType = Static<typeof ImageParams>;
+
+interface ImageItem {
+  id: string;
+  title: string;
+  background: string;
+}
+
+interface ImageRouteOptions<Reply> {
+  /** Name of the item in the route summary and errors */
+  name: "playlist" | "soundboard";
+  /** Channel to request every item from the player */
+  channel: string;
+  getItems: (reply: Reply) => ImageItem[];
+}
+
+/** Route to get the artwork of a playlist or soundboard by id */
+export function imageRoute<Reply>(
+  manager: PlayerManager,
+  { name, channel, getItems }: ImageRouteOptions<Reply>
+): FastifyPluginCallback {
+  return (fastify, _, done) => {
+    fastify.get<{
+      Params: ImageParamsType;
+      Querystring: ImageQueryType;
+    }>(
+      "/:id/image",
+      {
+        schema: {
+          summary: `Get the artwork of a ${name}`,
+          description: IMAGE_DESCRIPTION,
+          params: ImageParams,
+          querystring: ImageQuery,
+        },
+      },
+      async (request, reply) => {
+        const view = manager.getView();
+        if (!view) {
+          reply.status(503).send(VIEW_ERROR);
+          return;
+        }
+        let items: ImageItem[];
+        try {
+          items = getItems(
+            await manager.requests.request<Reply>(view, channel, [], {
+              signal: getReplySignal(reply),
+            })
+          );
+        } catch {
+          reply.status(408).send({
+            statusCode: 408,
+            error: "Request Timeout",
+            message: `Unable to retrieve ${name}s in a reasonable time`,
+          });
+          return;
+        }
+        const { id } = request.params;
+        const item = items.find((item) => item.id === id);
+        if (!item) {
+          reply.status(404).send({
+            statusCode: 404,
+            error: "Not Found",
+            message: `Unable to find ${name} with id: ${id}`,
+          });
+          return;
+        }
+        await replyWithImage(
+          manager,
+          reply,
+          item.background,
+          item.title,
+          request.query
+        );
+      }
+    );
+
+    done();
+  };
+}
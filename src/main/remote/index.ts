@@ -1,17 +1,38 @@
+import { WebContents } from "electron";
+import { FastifyReply } from "fastify";
+
 import { PlayerManager } from "../managers/PlayerManager";
+import { RemoteReplyError } from "../managers/RemoteRequestManager";
+import { registerAuth } from "./auth";
+import { registerOpenAPI } from "./openapi";
+import { registerBatch } from "./batch";
 import { get as playlistGet } from "./routes/playlist";
+import { edit as playlistEdit } from "./routes/playlist/edit";
 import { play as playlistPlay } from "./routes/playlist/play";
 import { playback as playlistPlayback } from "./routes/playlist/playback";
+import { queue as playlistQueue } from "./routes/playlist/queue";
+import { importTrack as playlistImport } from "./routes/playlist/import";
+import { image as playlistImage } from "./routes/playlist/image";
 import { get as soundboardGet } from "./routes/soundboard";
+import { edit as soundboardEdit } from "./routes/soundboard/edit";
+import { image as soundboardImage } from "./routes/soundboard/image";
 import { play as soundboardPlay } from "./routes/soundboard/play";
 import { stop as soundboardStop } from "./routes/soundboard/stop";
 import { playback as soundboardPlayback } from "./routes/soundboard/playback";
+import { get as eventsGet } from "./routes/events";
+import { volume as masterVolume } from "./routes/master/volume";
+import { stopAll } from "./routes/master/stopAll";
+import { get as outputGet } from "./routes/output";
+import { get as inputGet } from "./routes/input";
+import { tabs } from "./routes/tabs";
+import { get as statusGet } from "./routes/status";
+import { get as jobsGet } from "./routes/jobs";
+import { get as nowPlayingGet } from "./routes/nowPlaying";
+import { overlay as nowPlayingOverlay } from "./routes/nowPlaying/overlay";
+import { get as webGet } from "./routes/web";
+import { ReplyError } from "../../types/player";
 
-export type ReplyError = {
-  statusCode: number;
-  error: string;
-  message: string;
-};
+export type { ReplyError };
 
 export const VIEW_ERROR: ReplyError = {
   statusCode: 503,
@@ -19,19 +40,107 @@ export const VIEW_ERROR: ReplyError = {
   message: "Unable to connect to Kenku FM",
 };
 
+/**
+ * Create an abort signal that fires if the client disconnects
+ * before a reply is sent
+ */
+export function getReplySignal(reply: FastifyReply): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.once("close", () => {
+    if (!reply.sent) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Send a request to a renderer and reply with its response
+ * Errors replied by the renderer are forwarded to the client
+ */
+export async function replyWithRequest(
+  manager: PlayerManager,
+  reply: FastifyReply,
+  contents: WebContents | undefined,
+  channel: string,
+  args: unknown[] = []
+) {
+  if (!contents) {
+    reply.status(503).send(VIEW_ERROR);
+    return;
+  }
+  try {
+    const payload = await manager.requests.request(contents, channel, args, {
+      signal: getReplySignal(reply),
+    });
+    reply.status(200).send(payload);
+  } catch (e) {
+    if (e instanceof RemoteReplyError) {
+      reply.status(e.reply.statusCode).send(e.reply);
+    } else {
+      reply.status(408).send({
+        statusCode: 408,
+        error: "Request Timeout",
+        message: "Unable to complete request in a reasonable time",
+      });
+    }
+  }
+}
+
+/** Send a request to the player view and reply with its response */
+export function replyWithViewRequest(
+  manager: PlayerManager,
+  reply: FastifyReply,
+  channel: string,
+  args: unknown[] = []
+) {
+  return replyWithRequest(manager, reply, manager.getView(), channel, args);
+}
+
+/** Send a request to the main window and reply with its response */
+export function replyWithWindowRequest(
+  manager: PlayerManager,
+  reply: FastifyReply,
+  channel: string,
+  args: unknown[] = []
+) {
+  return replyWithRequest(manager, reply, manager.getWindow(), channel, args);
+}
+
 export function registerRemote(manager: PlayerManager) {
+  registerAuth(manager);
+  registerOpenAPI(manager);
+  registerBatch(manager);
   manager.fastify.register(playlistGet(manager), {
     prefix: "/v1/playlist",
   });
+  manager.fastify.register(playlistEdit(manager), {
+    prefix: "/v1/playlist",
+  });
+  manager.fastify.register(playlistImport(manager), {
+    prefix: "/v1/playlist",
+  });
+  manager.fastify.register(playlistImage(manager), {
+    prefix: "/v1/playlist",
+  });
   manager.fastify.register(playlistPlay(manager), {
     prefix: "/v1/playlist/play",
   });
   manager.fastify.register(playlistPlayback(manager), {
     prefix: "/v1/playlist/playback",
   });
+  manager.fastify.register(playlistQueue(manager), {
+    prefix: "/v1/playlist/queue",
+  });
   manager.fastify.register(soundboardGet(manager), {
     prefix: "/v1/soundboard",
   });
+  manager.fastify.register(soundboardEdit(manager), {
+    prefix: "/v1/soundboard",
+  });
+  manager.fastify.register(soundboardImage(manager), {
+    prefix: "/v1/soundboard",
+  });
   manager.fastify.register(soundboardPlay(manager), {
     prefix: "/v1/soundboard/play",
   });
@@ -41,4 +150,35 @@ export function registerRemote(manager: PlayerManager) {
   manager.fastify.register(soundboardPlayback(manager), {
     prefix: "/v1/soundboard/playback",
   });
+  manager.fastify.register(masterVolume(manager), {
+    prefix: "/v1/master/volume",
+  });
+  manager.fastify.register(stopAll(manager), {
+    prefix: "/v1/stop-all",
+  });
+  manager.fastify.register(outputGet(manager), {
+    prefix: "/v1/output",
+  });
+  manager.fastify.register(inputGet(manager), {
+    prefix: "/v1/input",
+  });
+  manager.fastify.register(tabs(manager), {
+    prefix: "/v1/tabs",
+  });
+  manager.fastify.register(statusGet(manager), {
+    prefix: "/v1/status",
+  });
+  manager.fastify.register(jobsGet(manager), {
+    prefix: "/v1/jobs",
+  });
+  manager.fastify.register(eventsGet(manager), {
+    prefix: "/v1/events",
+  });
+  manager.fastify.register(nowPlayingGet(manager), {
+    prefix: "/v1/now-playing",
+  });
+  manager.fastify.register(nowPlayingOverlay(manager), {
+    prefix: "/overlay",
+  });
+  manager.fastify.register(webGet(manager));
 }
@@ -0,0 +1,187 @@
+import { app } from "electron";
+import { STATUS_CODES } from "http";
+import { RouteOptions } from "fastify";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { getRouteScope } from "./auth";
+import { docsPage } from "./docsPage";
+
+declare module "fastify" {
+  interface FastifySchema {
+    /** Short description of the route used in the OpenAPI document */
+    summary?: string;
+    /** Long description of the route used in the OpenAPI document */
+    description?: string;
+  }
+}
+
+type JSONSchema = {
+  properties?: Record<string, unknown>;
+  required?: string[];
+};
+
+type DocumentedRoute = {
+  method: string;
+  url: string;
+  options: RouteOptions;
+};
+
+const OPENAPI_URL = "/v1/openapi.json";
+const DOCS_URL = "/v1/docs";
+
+const ReplyErrorSchema = {
+  type: "object",
+  properties: {
+    statusCode: { type: "number" },
+    error: { type: "string" },
+    message: { type: "string" },
+  },
+  required: ["statusCode", "error", "message"],
+};
+
+/** Convert a fastify url such as `/v1/playlist/:id` to `/v1/playlist/{id}` */
+function getPath(url: string) {
+  const path = url.replace(/:(\w+)/g, "{$1}");
+  return path.length > 1 && path.endsWith("/") ? path.slice(0, -1) : path;
+}
+
+/** Get the tag of a route from the first segment after the version */
+function getTag(url: string) {
+  return url.split("/")[2];
+}
+
+function getParameters(schema: unknown, location: "path" | "query") {
+  const { properties = {}, required = [] } = (schema || {}) as JSONSchema;
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: property,
+  }));
+}
+
+function getResponses(schema: unknown) {
+  const responses: Record<string, unknown> = {};
+  const statuses = Object.entries((schema || {}) as Record<string, unknown>);
+  if (statuses.length === 0) {
+    responses["200"] = { description: STATUS_CODES[200] };
+  }
+  for (const [status, response] of statuses) {
+    responses[status] = {
+      description: STATUS_CODES[status] || status,
+      content: { "application/json": { schema: response } },
+    };
+  }
+  responses.default = {
+    description: "Error",
+    content: {
+      "application/json": {
+        schema: { $ref: "#/components/schemas/ReplyError" },
+      },
+    },
+  };
+  return responses;
+}
+
+function getOperation({ method, url, options }: DocumentedRoute) {
+  const schema = options.schema || {};
+  const operation: Record<string, unknown> = {
+    tags: [getTag(url)],
+    parameters: [
+      ...getParameters(schema.params, "path"),
+      ...getParameters(schema.querystring, "query"),
+    ],
+    responses: getResponses(schema.response),
+  };
+  if (schema.summary) {
+    operation.summary = schema.summary;
+  }
+  if (schema.description) {
+    operation.description = schema.description;
+  }
+  if (schema.body) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: schema.body } },
+    };
+  }
+  if (!options.config?.public) {
+    operation["x-scope"] = getRouteScope(method, options.config);
+  }
+  return operation;
+}
+
+function getDocument(routes: DocumentedRoute[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const path = getPath(route.url);
+    paths[path] = paths[path] || {};
+    paths[path][route.method.toLowerCase()] = getOperation(route);
+  }
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Kenku FM Remote",
+      version: app.getVersion(),
+      description:
+        "When API keys are required send them as a bearer token. " +
+        "Each operation lists the scope its key needs in `x-scope`.",
+    },
+    tags: [...new Set(routes.map((route) => getTag(route.url)))].map(
+      (name) => ({ name })
+    ),
+    paths,
+    components: {
+      schemas: {
+        ReplyError: ReplyErrorSchema,
+      },
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer" },
+      },
+    },
+    security: [{ apiKey: [] }, {}],
+  };
+}
+
+/**
+ * Publish an OpenAPI document generated from the registered `/v1` routes
+ * along with an offline docs page that renders it
+ * This needs to be registered before any routes so they can be collected
+ */
+export function registerOpenAPI(manager: PlayerManager) {
+  const routes: DocumentedRoute[] = [];
+  const seen = new Set<string>();
+
+  manager.fastify.addHook("onRoute", (options) => {
+    const methods = Array.isArray(options.method)
+      ? options.method
+      : [options.method];
+    for (const method of methods) {
+      const key = `${method} ${getPath(options.url)}`;
+      if (
+        method === "HEAD" ||
+        !options.url.startsWith("/v1/") ||
+        options.url === OPENAPI_URL ||
+        options.url === DOCS_URL ||
+        // Prefixed routes are registered with and without a trailing slash
+        seen.has(key)
+      ) {
+        continue;
+      }
+      seen.add(key);
+      routes.push({ method, url: options.url, options });
+    }
+  });
+
+  manager.fastify.get(
+    OPENAPI_URL,
+    { config: { public: true } },
+    (_, reply) => {
+      reply.status(200).send(getDocument(routes));
+    }
+  );
+
+  manager.fastify.get(DOCS_URL, { config: { public: true } }, (_, reply) => {
+    reply.status(200).type("text/html").send(docsPage);
+  });
+}
@@ -0,0 +1,130 @@
+import { ArgumentType, MessageLike } from "node-osc";
+
+import { PlayerManager } from "../managers/PlayerManager";
+import { RemoteEvent } from "../../types/player";
+
+type OSCHandler = (
+  view: Electron.WebContents,
+  args: ArgumentType[],
+  manager: PlayerManager
+) => void;
+
+function getNumber(arg: ArgumentType | undefined, fallback: number) {
+  const value = Number(arg);
+  return arg === undefined || isNaN(value) ? fallback : value;
+}
+
+function getVolume(arg: ArgumentType | undefined) {
+  return Math.max(Math.min(getNumber(arg, 1), 1), 0);
+}
+
+/** OSC has no boolean type in most clients so treat any non zero value as true */
+function getBoolean(arg: ArgumentType | undefined) {
+  return arg === true || getNumber(arg, 0) !== 0;
+}
+
+/**
+ * Address space for incoming OSC messages
+ * Each address maps to the same player commands as the HTTP remote
+ */
+const handlers: Record<string, OSCHandler> = {
+  "/kenku/playlist/play": (view, [id]) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAY", String(id));
+  },
+  "/kenku/playback/play": (view) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PLAY");
+  },
+  "/kenku/playback/pause": (view) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PAUSE");
+  },
+  "/kenku/playback/next": (view) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_NEXT");
+  },
+  "/kenku/playback/previous": (view) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PREVIOUS");
+  },
+  "/kenku/playback/volume": (view, [volume]) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_VOLUME", getVolume(volume));
+  },
+  "/kenku/playback/mute": (view, [mute]) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_MUTE", getBoolean(mute));
+  },
+  "/kenku/playback/shuffle": (view, [shuffle]) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_SHUFFLE", getBoolean(shuffle));
+  },
+  "/kenku/playback/repeat": (view, [repeat]) => {
+    if (repeat === "off" || repeat === "track" || repeat === "playlist") {
+      view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_REPEAT", repeat);
+    }
+  },
+  "/kenku/playback/seek": (view, [to]) => {
+    view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_SEEK", getNumber(to, 0));
+  },
+  "/kenku/soundboard/play": (view, [id]) => {
+    view.send("PLAYER_REMOTE_SOUNDBOARD_PLAY", String(id), {});
+  },
+  "/kenku/soundboard/stop": (view, [id]) => {
+    view.send("PLAYER_REMOTE_SOUNDBOARD_STOP", String(id));
+  },
+  "/kenku/master/volume": (view, [volume]) => {
+    view.send("PLAYER_REMOTE_MASTER_VOLUME", getVolume(volume));
+  },
+  "/kenku/stop-all": (view, [fade, tabs], manager) => {
+    view.send("PLAYER_REMOTE_STOP_ALL", getNumber(fade, 1000));
+    if (getBoolean(tabs)) {
+      manager.pauseBrowserViews();
+    }
+  },
+};
+
+/**
+ * Handle an incoming OSC message
+ * Unknown addresses and messages received without a player view are ignored
+ */
+export function handleOSCMessage(
+  manager: PlayerManager,
+  [address, ...args]: [string, ...ArgumentType[]]
+) {
+  const handler = handlers[address];
+  const view = manager.getView();
+  if (handler && view) {
+    handler(view, args, manager);
+  }
+}
+
+/** Convert a remote event into outgoing OSC feedback messages */
+export function getOSCFeedback(event: RemoteEvent): MessageLike[] {
+  switch (event.type) {
+    case "playlist-track":
+      return [
+        [
+          "/kenku/playback/track",
+          event.track?.id ?? "",
+          event.track?.title ?? "",
+        ],
+        [
+          "/kenku/playback/playlist",
+          event.playlist?.id ?? "",
+          event.playlist?.title ?? "",
+        ],
+      ];
+    case "playlist-progress":
+      return [["/kenku/playback/progress", event.progress, event.duration]];
+    case "playlist-playing":
+      return [["/kenku/playback/playing", event.playing ? 1 : 0]];
+    case "playlist-volume":
+      return [["/kenku/playback/volume", event.volume]];
+    case "playlist-mute":
+      return [["/kenku/playback/mute", event.muted ? 1 : 0]];
+    case "playlist-shuffle":
+      return [["/kenku/playback/shuffle", event.shuffle ? 1 : 0]];
+    case "playlist-repeat":
+      return [["/kenku/playback/repeat", event.repeat]];
+    case "soundboard-play":
+      return [["/kenku/soundboard/playing", event.sound.id, 1]];
+    case "soundboard-stop":
+      return [["/kenku/soundboard/playing", event.id, 0]];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Self-contained now playing overlay for use as an OBS browser source
+ * Options are read from the query: `token` for the API key,
+ * `artwork=0` to hide the playlist image and `sounds=0` to hide sounds
+ */
+export const overlayPage = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Kenku FM Now Playing</title>
+    <style>
+      * {
+        box-sizing: border-box;
+      }
+      html,
+      body {
+        margin: 0;
+        background: transparent;
+        color: #fff;
+        font-family: Roboto, Helvetica, Arial, sans-serif;
+        overflow: hidden;
+      }
+      .overlay {
+        position: fixed;
+        left: 24px;
+        bottom: 24px;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        max-width: calc(100% - 48px);
+      }
+      .card {
+        display: flex;
+        align-items: center;
+        gap: 16px;
+        padding: 12px 20px 12px 12px;
+        border-radius: 16px;
+        background: rgba(30, 34, 49, 0.85);
+        transition: opacity 0.3s;
+      }
+      .card.hidden {
+        opacity: 0;
+      }
+      .artwork {
+        flex-shrink: 0;
+        width: 64px;
+        height: 64px;
+        border-radius: 12px;
+        background-size: cover;
+        background-position: center;
+      }
+      .text {
+        min-width: 0;
+      }
+      .title,
+      .subtitle {
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+      .title {
+        font-size: 20px;
+        font-weight: 500;
+      }
+      .subtitle {
+        font-size: 14px;
+        opacity: 0.7;
+      }
+      #sounds {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+      .sound {
+        align-self: flex-start;
+        padding: 6px 14px;
+        border-radius: 16px;
+        background: rgba(30, 34, 49, 0.85);
+        font-size: 14px;
+      }
+    </style>
+  </head>
+  <body>
+    <div class="overlay">
+      <div id="sounds"></div>
+      <div id="track" class="card hidden">
+        <div id="artwork" class="artwork"></div>
+        <div class="text">
+          <div id="title" class="title"></div>
+          <div id="subtitle" class="subtitle"></div>
+        </div>
+      </div>
+    </div>
+    <script>
+      var query = new URLSearchParams(location.search);
+      var token = query.get("token") || "";
+      var showArtwork = query.get("artwork") !== "0";
+      var showSounds = query.get("sounds") !== "0";
+
+      function withToken(url) {
+        if (!token) {
+          return url;
+        }
+        return url + (url.indexOf("?") === -1 ? "?" : "&") + "token=" + encodeURIComponent(token);
+      }
+
+      var artwork = document.getElementById("artwork");
+      var playlistId = null;
+      artwork.style.display = showArtwork ? "" : "none";
+
+      function render(nowPlaying) {
+        var card = document.getElementById("track");
+        var track = nowPlaying.playing ? nowPlaying.track : null;
+        card.className = track ? "card" : "card hidden";
+        if (track) {
+          document.getElementById("title").textContent = track.title;
+          document.getElementById("subtitle").textContent =
+            (nowPlaying.playlist && nowPlaying.playlist.title) || "";
+        }
+        var id = nowPlaying.playlist ? nowPlaying.playlist.id : null;
+        if (showArtwork && id !== playlistId) {
+          playlistId = id;
+          artwork.style.backgroundImage = id
+            ? "url(" + JSON.stringify(withToken("/v1/playlist/" + encodeURIComponent(id) + "/image?width=128&height=128")) + ")"
+            : "";
+        }
+
+        var sounds = document.getElementById("sounds");
+        sounds.innerHTML = "";
+        if (showSounds) {
+          nowPlaying.sounds.forEach(function (sound) {
+            var el = document.createElement("div");
+            el.className = "sound";
+            el.textContent = sound.title;
+            sounds.appendChild(el);
+          });
+        }
+      }
+
+      var events = new EventSource(withToken("/v1/now-playing/events"));
+      events.addEventListener("now-playing", function (event) {
+        render(JSON.parse(event.data));
+      });
+    </script>
+  </body>
+</html>
+`;
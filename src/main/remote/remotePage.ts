@@ -0,0 +1,542 @@
+/**
+ * Self-contained web remote for controlling Kenku FM from a phone
+ * It is built entirely on the public `/v1` routes
+ */
+export const remotePage = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta
+      name="viewport"
+      content="width=device-width, initial-scale=1, viewport-fit=cover"
+    />
+    <meta name="theme-color" content="#1e2231" />
+    <title>Kenku FM Remote</title>
+    <style>
+      * {
+        box-sizing: border-box;
+      }
+      body {
+        margin: 0;
+        background: #1e2231;
+        color: #fff;
+        font-family: Roboto, Helvetica, Arial, sans-serif;
+        -webkit-tap-highlight-color: transparent;
+      }
+      header {
+        position: sticky;
+        top: 0;
+        z-index: 1;
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 12px 16px;
+        background: rgba(30, 34, 49, 0.95);
+      }
+      header h1 {
+        flex-grow: 1;
+        margin: 0;
+        font-size: 18px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      button {
+        border: none;
+        border-radius: 8px;
+        padding: 8px 12px;
+        background: rgba(255, 255, 255, 0.1);
+        color: #fff;
+        font-size: 14px;
+        cursor: pointer;
+      }
+      button.active {
+        background: #fff;
+        color: #1e2231;
+      }
+      button.danger {
+        background: #f44336;
+      }
+      main {
+        padding: 0 16px 180px;
+      }
+      .tabs {
+        display: flex;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+      .grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(140px, 1fr));
+        gap: 12px;
+      }
+      .card {
+        position: relative;
+        height: 120px;
+        border-radius: 16px;
+        background-size: cover;
+        background-position: center;
+        overflow: hidden;
+        cursor: pointer;
+      }
+      .card span {
+        position: absolute;
+        left: 0;
+        right: 0;
+        bottom: 0;
+        padding: 24px 12px 12px;
+        background: linear-gradient(transparent, rgba(0, 0, 0, 0.8));
+        font-weight: 500;
+      }
+      .list button {
+        display: block;
+        width: 100%;
+        margin-bottom: 8px;
+        padding: 14px 12px;
+        text-align: left;
+      }
+      .pad {
+        position: relative;
+        height: 88px;
+        padding: 8px;
+        overflow: hidden;
+        word-break: break-word;
+      }
+      .pad .progress {
+        position: absolute;
+        left: 0;
+        bottom: 0;
+        height: 4px;
+        background: #fff;
+        transition: width 1s linear;
+      }
+      .pad.active .progress {
+        background: #1e2231;
+      }
+      footer {
+        position: fixed;
+        left: 0;
+        right: 0;
+        bottom: 0;
+        padding: 12px 16px calc(12px + env(safe-area-inset-bottom));
+        background: #2a2f42;
+        box-shadow: 0 -4px 16px rgba(0, 0, 0, 0.4);
+      }
+      footer .title {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      footer .subtitle {
+        font-size: 12px;
+        opacity: 0.7;
+        min-height: 14px;
+      }
+      footer .controls {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        gap: 12px;
+        margin: 8px 0;
+      }
+      footer .controls button {
+        min-width: 48px;
+        font-size: 18px;
+      }
+      input[type="range"] {
+        width: 100%;
+        accent-color: #fff;
+      }
+      .bar {
+        height: 4px;
+        border-radius: 2px;
+        background: rgba(255, 255, 255, 0.2);
+        overflow: hidden;
+      }
+      .bar div {
+        height: 100%;
+        background: #fff;
+        transition: width 1s linear;
+      }
+      .message {
+        padding: 32px 0;
+        text-align: center;
+        opacity: 0.7;
+      }
+      .key {
+        display: flex;
+        gap: 8px;
+        margin-top: 12px;
+      }
+      .key input {
+        flex-grow: 1;
+        padding: 8px;
+        border-radius: 8px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        background: transparent;
+        color: #fff;
+      }
+    </style>
+  </head>
+  <body>
+    <header>
+      <button id="back" hidden>&#8592;</button>
+      <h1 id="title">Kenku FM</h1>
+      <button id="stop-all" class="danger">Stop All</button>
+    </header>
+    <main id="content"></main>
+    <footer>
+      <div class="bar"><div id="progress" style="width: 0"></div></div>
+      <div class="controls">
+        <button id="previous">&#9198;</button>
+        <button id="play">&#9654;</button>
+        <button id="next">&#9197;</button>
+      </div>
+      <div class="title" id="track-title">Nothing playing</div>
+      <div class="subtitle" id="playlist-title"></div>
+      <input id="volume" type="range" min="0" max="1" step="0.01" value="1" />
+    </footer>
+    <script>
+      var state = {
+        token: localStorage.getItem("token") || "",
+        tab: "playlists",
+        open: null,
+        playlists: { playlists: [], tracks: [] },
+        soundboards: { soundboards: [], sounds: [] },
+        playback: null,
+        sounds: {},
+        error: null,
+      };
+
+      function api(method, path, body) {
+        var headers = {};
+        if (state.token) {
+          headers.Authorization = "Bearer " + state.token;
+        }
+        if (body !== undefined) {
+          headers["Content-Type"] = "application/json";
+        }
+        return fetch("/v1" + path, {
+          method: method,
+          headers: headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+        }).then(function (response) {
+          return response.json().then(function (json) {
+            if (!response.ok) {
+              throw json;
+            }
+            return json;
+          });
+        });
+      }
+
+      function handleError(error) {
+        state.error = error;
+        render();
+      }
+
+      function h(tag, props, children) {
+        var el = document.createElement(tag);
+        Object.keys(props || {}).forEach(function (key) {
+          if (key.indexOf("on") === 0) {
+            el.addEventListener(key.slice(2), props[key]);
+          } else if (key === "style") {
+            Object.assign(el.style, props.style);
+          } else {
+            el[key] = props[key];
+          }
+        });
+        (children || []).forEach(function (child) {
+          el.appendChild(
+            typeof child === "string" ? document.createTextNode(child) : child
+          );
+        });
+        return el;
+      }
+
+      function background(type, item) {
+        var src = "/v1/" + type + "/" + encodeURIComponent(item.id) + "/image?width=320";
+        if (state.token) {
+          src += "&token=" + encodeURIComponent(state.token);
+        }
+        // Show a gradient behind the image while it loads or if it fails
+        var hue = 0;
+        for (var i = 0; i < item.id.length; i++) {
+          hue = (hue * 31 + item.id.charCodeAt(i)) % 360;
+        }
+        return (
+          "url(" + JSON.stringify(src) + "), " +
+          "linear-gradient(135deg, hsl(" + hue + ", 50%, 35%), hsl(" +
+          ((hue + 60) % 360) + ", 50%, 20%))"
+        );
+      }
+
+      function card(type, item, onClick) {
+        return h(
+          "div",
+          { className: "card", style: { backgroundImage: background(type, item) }, onclick: onClick },
+          [h("span", { textContent: item.title })]
+        );
+      }
+
+      function find(list, id) {
+        return list.filter(function (item) {
+          return item.id === id;
+        })[0];
+      }
+
+      function renderKeyPrompt() {
+        var input = h("input", { type: "password", placeholder: "API Key", value: state.token });
+        return h("div", { className: "message" }, [
+          "An API key is needed to control Kenku FM",
+          h("div", { className: "key" }, [
+            input,
+            h("button", {
+              textContent: "Save",
+              onclick: function () {
+                state.token = input.value.trim();
+                localStorage.setItem("token", state.token);
+                state.error = null;
+                load();
+              },
+            }),
+          ]),
+        ]);
+      }
+
+      function renderPlaylists() {
+        if (state.open) {
+          var playlist = find(state.playlists.playlists, state.open);
+          if (!playlist) {
+            state.open = null;
+            return renderPlaylists();
+          }
+          var tracks = playlist.tracks.map(function (id) {
+            return find(state.playlists.tracks, id);
+          });
+          return h("div", { className: "list" }, [
+            h("button", {
+              className: "active",
+              textContent: "Play " + playlist.title,
+              onclick: function () {
+                api("PUT", "/playlist/play", { id: playlist.id }).catch(handleError);
+              },
+            }),
+          ].concat(
+            tracks.filter(Boolean).map(function (track) {
+              var playing = state.playback && state.playback.track && state.playback.track.id === track.id;
+              return h("button", {
+                className: playing ? "active" : "",
+                textContent: track.title,
+                onclick: function () {
+                  api("PUT", "/playlist/play", { id: track.id }).catch(handleError);
+                },
+              });
+            })
+          ));
+        }
+        return h(
+          "div",
+          { className: "grid" },
+          state.playlists.playlists.map(function (playlist) {
+            return card("playlist", playlist, function () {
+              state.open = playlist.id;
+              render();
+            });
+          })
+        );
+      }
+
+      function renderSoundboards() {
+        if (state.open) {
+          var soundboard = find(state.soundboards.soundboards, state.open);
+          if (!soundboard) {
+            state.open = null;
+            return renderSoundboards();
+          }
+          return h(
+            "div",
+            { className: "grid" },
+            soundboard.sounds.map(function (id) {
+              var sound = find(state.soundboards.sounds, id);
+              if (!sound) {
+                return h("span");
+              }
+              var playback = state.sounds[id];
+              var progress = playback && playback.duration
+                ? Math.min((playback.progress / playback.duration) * 100, 100)
+                : 0;
+              return h(
+                "button",
+                {
+                  className: "pad" + (playback ? " active" : ""),
+                  onclick: function () {
+                    api("PUT", playback ? "/soundboard/stop" : "/soundboard/play", { id: id }).catch(handleError);
+                  },
+                },
+                [
+                  sound.title,
+                  h("div", { className: "progress", style: { width: progress + "%" } }),
+                ]
+              );
+            })
+          );
+        }
+        return h(
+          "div",
+          { className: "grid" },
+          state.soundboards.soundboards.map(function (soundboard) {
+            return card("soundboard", soundboard, function () {
+              state.open = soundboard.id;
+              render();
+            });
+          })
+        );
+      }
+
+      function render() {
+        var content = document.getElementById("content");
+        content.innerHTML = "";
+        var title = "Kenku FM";
+        if (state.open) {
+          var item = state.tab === "playlists"
+            ? find(state.playlists.playlists, state.open)
+            : find(state.soundboards.soundboards, state.open);
+          title = item ? item.title : title;
+        }
+        document.getElementById("title").textContent = title;
+        document.getElementById("back").hidden = !state.open;
+
+        if (state.error && (state.error.statusCode === 401 || state.error.statusCode === 403)) {
+          content.appendChild(renderKeyPrompt());
+          return;
+        }
+        if (state.error) {
+          content.appendChild(h("div", { className: "message", textContent: state.error.message || "Unable to connect to Kenku FM" }));
+        }
+        if (!state.open) {
+          content.appendChild(
+            h("div", { className: "tabs" }, ["playlists", "soundboards"].map(function (tab) {
+              return h("button", {
+                className: state.tab === tab ? "active" : "",
+                textContent: tab === "playlists" ? "Playlists" : "Soundboards",
+                onclick: function () {
+                  state.tab = tab;
+                  render();
+                },
+              });
+            }))
+          );
+        }
+        content.appendChild(state.tab === "playlists" ? renderPlaylists() : renderSoundboards());
+        renderPlayback();
+      }
+
+      function renderPlayback() {
+        var playback = state.playback;
+        var track = playback && playback.track;
+        document.getElementById("track-title").textContent = track ? track.title : "Nothing playing";
+        document.getElementById("playlist-title").textContent = playback && playback.playlist ? playback.playlist.title : "";
+        document.getElementById("play").innerHTML = playback && playback.playing ? "&#10074;&#10074;" : "&#9654;";
+        var progress = track && track.duration ? Math.min((track.progress / track.duration) * 100, 100) : 0;
+        document.getElementById("progress").style.width = progress + "%";
+        var volume = document.getElementById("volume");
+        if (playback && document.activeElement !== volume) {
+          volume.value = playback.volume;
+        }
+      }
+
+      function load() {
+        Promise.all([
+          api("GET", "/playlist"),
+          api("GET", "/soundboard"),
+          api("GET", "/playlist/playback"),
+          api("GET", "/soundboard/playback"),
+        ])
+          .then(function (results) {
+            state.error = null;
+            state.playlists = results[0];
+            state.soundboards = results[1];
+            state.playback = results[2];
+            state.sounds = {};
+            results[3].sounds.forEach(function (sound) {
+              state.sounds[sound.id] = sound;
+            });
+            render();
+            listen();
+          })
+          .catch(handleError);
+      }
+
+      var events;
+      function listen() {
+        if (events) {
+          events.close();
+        }
+        events = new EventSource("/v1/events" + (state.token ? "?token=" + encodeURIComponent(state.token) : ""));
+        function on(type, callback) {
+          events.addEventListener(type, function (event) {
+            if (!state.playback) {
+              return;
+            }
+            callback(JSON.parse(event.data));
+            render();
+          });
+        }
+        on("playlist-track", function (data) {
+          state.playback.track = data.track;
+          state.playback.playlist = data.playlist;
+        });
+        on("playlist-progress", function (data) {
+          if (state.playback.track) {
+            state.playback.track.progress = data.progress;
+            state.playback.track.duration = data.duration;
+          }
+        });
+        on("playlist-playing", function (data) {
+          state.playback.playing = data.playing;
+        });
+        on("playlist-volume", function (data) {
+          state.playback.volume = data.volume;
+        });
+        on("soundboard-play", function (data) {
+          state.sounds[data.sound.id] = data.sound;
+        });
+        on("soundboard-stop", function (data) {
+          delete state.sounds[data.id];
+        });
+        on("soundboard-progress", function (data) {
+          data.sounds.forEach(function (sound) {
+            if (state.sounds[sound.id]) {
+              state.sounds[sound.id].progress = sound.progress;
+            }
+          });
+        });
+      }
+
+      document.getElementById("back").addEventListener("click", function () {
+        state.open = null;
+        render();
+      });
+      document.getElementById("stop-all").addEventListener("click", function () {
+        api("POST", "/stop-all", {}).catch(handleError);
+      });
+      document.getElementById("play").addEventListener("click", function () {
+        var playing = state.playback && state.playback.playing;
+        api("PUT", playing ? "/playlist/playback/pause" : "/playlist/playback/play").catch(handleError);
+      });
+      document.getElementById("next").addEventListener("click", function () {
+        api("POST", "/playlist/playback/next").catch(handleError);
+      });
+      document.getElementById("previous").addEventListener("click", function () {
+        api("POST", "/playlist/playback/previous").catch(handleError);
+      });
+      document.getElementById("volume").addEventListener("change", function (event) {
+        api("PUT", "/playlist/playback/volume", { volume: Number(event.target.value) }).catch(handleError);
+      });
+
+      load();
+    </script>
+  </body>
+</html>
+`;
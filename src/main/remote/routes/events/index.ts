@@ -0,0 +1,26 @@
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { createEventStream } from "../../eventStream";
+import { RemoteEvent } from "../../../../types/player";
+
+/**
+ * Server-sent event stream of playback changes in the player
+ * This allows remote clients to stay in sync without polling
+ */
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    const replyWithEventStream = createEventStream(fastify);
+
+    fastify.get("/", (_, reply) =>
+      replyWithEventStream(reply, (send) => {
+        const handleRemoteEvent = (event: RemoteEvent) => {
+          send(event.type, event);
+        };
+        manager.on("remoteEvent", handleRemoteEvent);
+        return () => manager.off("remoteEvent", handleRemoteEvent);
+      })
+    );
+
+    done();
+  };
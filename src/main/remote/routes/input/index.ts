@@ -0,0 +1,86 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, replyWithWindowRequest } from "../..";
+
+const Inputs = Type.Object({
+  enabled: Type.Boolean(),
+  devices: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      label: Type.String(),
+    })
+  ),
+  inputs: Type.Array(Type.String()),
+});
+export type InputsType = Static<typeof Inputs>;
+
+const InputParams = Type.Object({
+  id: Type.String(),
+});
+type InputParamsType = Static<typeof InputParams>;
+
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.get<{
+      Reply: InputsType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "List external input devices and the captured inputs",
+          response: {
+            200: Inputs,
+          },
+        },
+      },
+      (_, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_INPUT_REQUEST")
+    );
+
+    fastify.post<{
+      Params: InputParamsType;
+      Reply: InputsType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Start capturing an external input device",
+          description:
+            "Without multiple inputs enabled this replaces the current input. " +
+            "External inputs must be enabled in settings.",
+          params: InputParams,
+          response: {
+            200: Inputs,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_INPUT_START", [
+          request.params.id,
+        ])
+    );
+
+    fastify.delete<{
+      Params: InputParamsType;
+      Reply: InputsType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Stop capturing an external input device",
+          params: InputParams,
+          response: {
+            200: Inputs,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_INPUT_STOP", [
+          request.params.id,
+        ])
+    );
+
+    done();
+  };
@@ -0,0 +1,109 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError } from "../..";
+
+/** Background import of a track, shared with the playlist import route */
+export const ImportJob = Type.Object({
+  id: Type.String(),
+  playlistId: Type.String(),
+  url: Type.String(),
+  status: Type.Union([
+    Type.Literal("running"),
+    Type.Literal("complete"),
+    Type.Literal("failed"),
+    Type.Literal("cancelled"),
+  ]),
+  progress: Type.Optional(
+    Type.Object({
+      stage: Type.String(),
+      message: Type.String(),
+      progress: Type.Optional(Type.Number()),
+    })
+  ),
+  track: Type.Optional(
+    Type.Object({
+      id: Type.String(),
+      title: Type.String(),
+      url: Type.String(),
+    })
+  ),
+  error: Type.Optional(Type.String()),
+});
+export type ImportJobType = Static<typeof ImportJob>;
+
+const JobParams = Type.Object({
+  id: Type.String(),
+});
+type JobParamsType = Static<typeof JobParams>;
+
+function notFound(id: string): ReplyError {
+  return {
+    statusCode: 404,
+    error: "Not Found",
+    message: `Unable to find job with id: ${id}`,
+  };
+}
+
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.get<{
+      Params: JobParamsType;
+      Reply: ImportJobType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Get the progress of a job",
+          description: "Finished jobs are kept for an hour.",
+          params: JobParams,
+          response: {
+            200: ImportJob,
+          },
+        },
+      },
+      (request, reply) => {
+        const job = manager.jobs.get(request.params.id);
+        if (job) {
+          reply.status(200).send(job);
+        } else {
+          reply.status(404).send(notFound(request.params.id));
+        }
+      }
+    );
+
+    fastify.delete<{
+      Params: JobParamsType;
+      Reply: ImportJobType | ReplyError;
+    }>(
+      "/:id",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Cancel a running job",
+          params: JobParams,
+          response: {
+            200: ImportJob,
+          },
+        },
+      },
+      (request, reply) => {
+        const { id } = request.params;
+        const job = manager.jobs.get(id);
+        if (!job) {
+          reply.status(404).send(notFound(id));
+        } else if (manager.jobs.cancel(id)) {
+          reply.status(200).send(manager.jobs.get(id));
+        } else {
+          reply.status(409).send({
+            statusCode: 409,
+            error: "Conflict",
+            message: `Job has already finished with status: ${job.status}`,
+          });
+        }
+      }
+    );
+
+    done();
+  };
@@ -0,0 +1,58 @@
+import Fastify, { FastifyInstance } from "fastify";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { stopAll } from "./stopAll";
+
+vi.mock("electron", () => ({}));
+
+describe("stopAll", () => {
+  let fastify: FastifyInstance;
+  const view = { send: vi.fn() };
+  const manager = {
+    getView: () => view,
+    pauseBrowserViews: vi.fn(),
+  } as unknown as PlayerManager;
+
+  beforeEach(async () => {
+    view.send.mockClear();
+    fastify = Fastify();
+    fastify.register(stopAll(manager), { prefix: "/v1/stop-all" });
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it("fades out with the defaults when posted without a body", async () => {
+    const response = await fastify.inject({
+      method: "POST",
+      url: "/v1/stop-all",
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ fade: 1000, tabs: false });
+    expect(view.send).toHaveBeenCalledWith("PLAYER_REMOTE_STOP_ALL", 1000);
+    expect(manager.pauseBrowserViews).not.toHaveBeenCalled();
+  });
+
+  it("uses the fade and tabs from the body", async () => {
+    const response = await fastify.inject({
+      method: "POST",
+      url: "/v1/stop-all",
+      payload: { fade: 0, tabs: true },
+    });
+    expect(response.json()).toEqual({ fade: 0, tabs: true });
+    expect(view.send).toHaveBeenCalledWith("PLAYER_REMOTE_STOP_ALL", 0);
+    expect(manager.pauseBrowserViews).toHaveBeenCalled();
+  });
+
+  it("rejects invalid fades", async () => {
+    const response = await fastify.inject({
+      method: "POST",
+      url: "/v1/stop-all",
+      payload: { fade: -1 },
+    });
+    expect(response.statusCode).toBe(400);
+  });
+});
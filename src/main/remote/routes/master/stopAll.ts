@@ -0,0 +1,53 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, VIEW_ERROR } from "../..";
+
+const StopAllRequest = Type.Object({
+  /** Fade out duration in milliseconds */
+  fade: Type.Integer({ minimum: 0, default: 1000 }),
+  /** Also pause media playing in browser tabs */
+  tabs: Type.Boolean({ default: false }),
+});
+export type StopAllRequestType = Static<typeof StopAllRequest>;
+
+export const stopAll: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.post<{
+      Body: StopAllRequestType;
+      Reply: StopAllRequestType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "Fade out the playlist and all soundboard sounds",
+          description:
+            "Browser tabs are paused immediately as they can't be faded",
+          body: StopAllRequest,
+          response: {
+            200: StopAllRequest,
+          },
+        },
+        // Every option has a default so allow posting without a body
+        preValidation: (request, _, done) => {
+          request.body = request.body ?? ({} as StopAllRequestType);
+          done();
+        },
+      },
+      (request, reply) => {
+        const view = manager.getView();
+        if (view) {
+          view.send("PLAYER_REMOTE_STOP_ALL", request.body.fade);
+          if (request.body.tabs) {
+            manager.pauseBrowserViews();
+          }
+          reply.status(200).send(request.body);
+        } else {
+          reply.status(503).send(VIEW_ERROR);
+        }
+      }
+    );
+
+    done();
+  };
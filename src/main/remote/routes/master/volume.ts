@@ -0,0 +1,41 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, VIEW_ERROR } from "../..";
+
+const VolumeRequest = Type.Object({
+  volume: Type.Number(),
+});
+export type VolumeRequestType = Static<typeof VolumeRequest>;
+
+export const volume: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.put<{
+      Body: VolumeRequestType;
+      Reply: VolumeRequestType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "Set the volume of the combined audio output",
+          body: VolumeRequest,
+          response: {
+            200: VolumeRequest,
+          },
+        },
+      },
+      (request, reply) => {
+        const view = manager.getView();
+        if (view) {
+          const volume = Math.max(Math.min(request.body.volume, 1), 0);
+          view.send("PLAYER_REMOTE_MASTER_VOLUME", volume);
+          reply.status(200).send({ volume });
+        } else {
+          reply.status(503).send(VIEW_ERROR);
+        }
+      }
+    );
+
+    done();
+  };
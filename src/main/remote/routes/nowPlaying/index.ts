@@ -0,0 +1,92 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { getNowPlayingText } from "../../../managers/NowPlayingManager";
+import { createEventStream } from "../../eventStream";
+import { NowPlaying as NowPlayingState } from "../../../../types/remote";
+
+const NowPlaying = Type.Object({
+  playing: Type.Boolean(),
+  track: Type.Optional(
+    Type.Object({
+      id: Type.String(),
+      title: Type.String(),
+    })
+  ),
+  playlist: Type.Optional(
+    Type.Object({
+      id: Type.String(),
+      title: Type.Optional(Type.String()),
+    })
+  ),
+  sounds: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      title: Type.String(),
+    })
+  ),
+});
+export type NowPlayingType = Static<typeof NowPlaying>;
+
+/** Now playing feeds for stream overlays */
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    const replyWithEventStream = createEventStream(fastify);
+
+    fastify.get<{ Reply: NowPlayingType }>(
+      "/",
+      {
+        schema: {
+          summary: "Get the playing track, playlist and sounds",
+          response: {
+            200: NowPlaying,
+          },
+        },
+      },
+      (_, reply) => {
+        reply.status(200).send(manager.nowPlaying.nowPlaying);
+      }
+    );
+
+    fastify.get(
+      "/text",
+      {
+        schema: {
+          summary: "Get what is playing as plain text",
+          description:
+            "The first line is the track and playlist when a track is " +
+            "playing followed by a line for each playing sound.",
+        },
+      },
+      (_, reply) => {
+        reply
+          .status(200)
+          .type("text/plain; charset=utf-8")
+          .send(getNowPlayingText(manager.nowPlaying.nowPlaying));
+      }
+    );
+
+    fastify.get(
+      "/events",
+      {
+        schema: {
+          summary: "Stream now playing changes",
+          description:
+            "Server-sent event stream with a `now-playing` event " +
+            "when connected and on every change.",
+        },
+      },
+      (_, reply) =>
+        replyWithEventStream(reply, (send) => {
+          const handleChange = (nowPlaying: NowPlayingState) => {
+            send("now-playing", nowPlaying);
+          };
+          handleChange(manager.nowPlaying.nowPlaying);
+          manager.nowPlaying.on("change", handleChange);
+          return () => manager.nowPlaying.off("change", handleChange);
+        })
+    );
+
+    done();
+  };
@@ -0,0 +1,14 @@
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { overlayPage } from "../../overlayPage";
+
+/** Now playing overlay for streaming software browser sources */
+export const overlay: (manager: PlayerManager) => FastifyPluginCallback =
+  () => (fastify, _, done) => {
+    fastify.get("/", (_, reply) => {
+      reply.status(200).type("text/html").send(overlayPage);
+    });
+
+    done();
+  };
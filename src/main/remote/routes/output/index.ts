@@ -0,0 +1,98 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, replyWithWindowRequest } from "../..";
+
+const Outputs = Type.Object({
+  guilds: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      name: Type.String(),
+      icon: Type.Union([Type.String(), Type.Null()]),
+      voiceChannels: Type.Array(
+        Type.Object({
+          id: Type.String(),
+          name: Type.String(),
+          stage: Type.Optional(Type.Boolean()),
+          canConnect: Type.Optional(Type.Boolean()),
+          canSpeak: Type.Optional(Type.Boolean()),
+          full: Type.Optional(Type.Boolean()),
+        })
+      ),
+    })
+  ),
+  outputs: Type.Array(Type.String()),
+});
+export type OutputsType = Static<typeof Outputs>;
+
+const OutputParams = Type.Object({
+  id: Type.String(),
+});
+type OutputParamsType = Static<typeof OutputParams>;
+
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.get<{
+      Reply: OutputsType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "List Discord voice channels and the selected outputs",
+          description: "The `local` output plays audio on this computer",
+          response: {
+            200: Outputs,
+          },
+        },
+      },
+      (_, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_OUTPUT_REQUEST")
+    );
+
+    fastify.post<{
+      Params: OutputParamsType;
+      Reply: OutputsType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Join a voice channel or enable local playback",
+          description:
+            "Without multiple outputs enabled this replaces the current " +
+            "output. Channels the bot can't connect to or that are full " +
+            "return a 409",
+          params: OutputParams,
+          response: {
+            200: Outputs,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_OUTPUT_JOIN", [
+          request.params.id,
+        ])
+    );
+
+    fastify.delete<{
+      Params: OutputParamsType;
+      Reply: OutputsType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Leave a voice channel or disable local playback",
+          params: OutputParams,
+          response: {
+            200: Outputs,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_OUTPUT_LEAVE", [
+          request.params.id,
+        ])
+    );
+
+    done();
+  };
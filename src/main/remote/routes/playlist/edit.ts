@@ -0,0 +1,276 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, replyWithViewRequest } from "../..";
+import { RemoteBackground } from "../../image";
+
+const Playlist = Type.Object({
+  id: Type.String(),
+  title: Type.String(),
+  background: Type.String(),
+  tracks: Type.Array(Type.String()),
+});
+export type PlaylistType = Static<typeof Playlist>;
+
+const Track = Type.Object({
+  id: Type.String(),
+  title: Type.String(),
+  url: Type.String(),
+});
+export type TrackType = Static<typeof Track>;
+
+const IDReply = Type.Object({
+  id: Type.String(),
+});
+export type IDReplyType = Static<typeof IDReply>;
+
+const PlaylistParams = Type.Object({
+  id: Type.String(),
+});
+type PlaylistParamsType = Static<typeof PlaylistParams>;
+
+const TrackParams = Type.Object({
+  id: Type.String(),
+  trackId: Type.String(),
+});
+type TrackParamsType = Static<typeof TrackParams>;
+
+const AddPlaylistRequest = Type.Object(
+  {
+    title: Type.String({ minLength: 1 }),
+    background: Type.Optional(RemoteBackground),
+  },
+  { additionalProperties: false }
+);
+export type AddPlaylistRequestType = Static<typeof AddPlaylistRequest>;
+
+const EditPlaylistRequest = Type.Object(
+  {
+    title: Type.Optional(Type.String({ minLength: 1 })),
+    background: Type.Optional(RemoteBackground),
+  },
+  { additionalProperties: false }
+);
+export type EditPlaylistRequestType = Static<typeof EditPlaylistRequest>;
+
+const AddTrackRequest = Type.Object(
+  {
+    title: Type.String({ minLength: 1 }),
+    url: Type.String({ minLength: 1 }),
+  },
+  { additionalProperties: false }
+);
+export type AddTrackRequestType = Static<typeof AddTrackRequest>;
+
+const EditTrackRequest = Type.Object(
+  {
+    title: Type.Optional(Type.String({ minLength: 1 })),
+    url: Type.Optional(Type.String({ minLength: 1 })),
+  },
+  { additionalProperties: false }
+);
+export type EditTrackRequestType = Static<typeof EditTrackRequest>;
+
+const MoveRequest = Type.Object({
+  /** ID of the item to move this item in front of */
+  over: Type.String(),
+});
+export type MoveRequestType = Static<typeof MoveRequest>;
+
+export const edit: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.post<{
+      Body: AddPlaylistRequestType;
+      Reply: PlaylistType | ReplyError;
+    }>(
+      "/",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Create a playlist",
+          body: AddPlaylistRequest,
+          response: {
+            200: Playlist,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_PLAYLIST_ADD", [
+          request.body,
+        ])
+    );
+
+    fastify.patch<{
+      Params: PlaylistParamsType;
+      Body: EditPlaylistRequestType;
+      Reply: PlaylistType | ReplyError;
+    }>(
+      "/:id",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Edit a playlist's title or background",
+          params: PlaylistParams,
+          body: EditPlaylistRequest,
+          response: {
+            200: Playlist,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_PLAYLIST_EDIT", [
+          request.params.id,
+          request.body,
+        ])
+    );
+
+    fastify.delete<{
+      Params: PlaylistParamsType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Delete a playlist and its tracks",
+          params: PlaylistParams,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_PLAYLIST_REMOVE", [
+          request.params.id,
+        ])
+    );
+
+    fastify.put<{
+      Params: PlaylistParamsType;
+      Body: MoveRequestType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id/move",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Move a playlist in front of another playlist",
+          params: PlaylistParams,
+          body: MoveRequest,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_PLAYLIST_MOVE", [
+          request.params.id,
+          request.body.over,
+        ])
+    );
+
+    fastify.post<{
+      Params: PlaylistParamsType;
+      Body: AddTrackRequestType;
+      Reply: TrackType | ReplyError;
+    }>(
+      "/:id/tracks",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Add a track to a playlist",
+          params: PlaylistParams,
+          body: AddTrackRequest,
+          response: {
+            200: Track,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_TRACK_ADD",
+          [request.params.id, request.body]
+        )
+    );
+
+    fastify.patch<{
+      Params: TrackParamsType;
+      Body: EditTrackRequestType;
+      Reply: TrackType | ReplyError;
+    }>(
+      "/:id/tracks/:trackId",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Edit a track's title or url",
+          params: TrackParams,
+          body: EditTrackRequest,
+          response: {
+            200: Track,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_TRACK_EDIT",
+          [request.params.id, request.params.trackId, request.body]
+        )
+    );
+
+    fastify.delete<{
+      Params: TrackParamsType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id/tracks/:trackId",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Remove a track from a playlist",
+          params: TrackParams,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_TRACK_REMOVE",
+          [request.params.id, request.params.trackId]
+        )
+    );
+
+    fastify.put<{
+      Params: TrackParamsType;
+      Body: MoveRequestType;
+      Reply: PlaylistType | ReplyError;
+    }>(
+      "/:id/tracks/:trackId/move",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Move a track in front of another track in its playlist",
+          params: TrackParams,
+          body: MoveRequest,
+          response: {
+            200: Playlist,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_TRACK_MOVE",
+          [request.params.id, request.params.trackId, request.body.over]
+        )
+    );
+
+    done();
+  };
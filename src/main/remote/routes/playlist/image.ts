@@ -0,0 +1,14 @@
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { imageRoute } from "../../image";
+import { PlaylistsReply } from "../../../../types/player";
+
+export const image: (manager: PlayerManager) => FastifyPluginCallback = (
+  manager
+) =>
+  imageRoute(manager, {
+    name: "playlist",
+    channel: "PLAYER_REMOTE_PLAYLIST_GET_ALL_REQUEST",
+    getItems: (reply: PlaylistsReply) => reply.playlists,
+  });
@@ -0,0 +1,88 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { getReplySignal, ReplyError, VIEW_ERROR } from "../..";
+import { ImportJob, ImportJobType } from "../jobs";
+import { PlaylistsReply } from "../../../../types/player";
+
+const PlaylistParams = Type.Object({
+  id: Type.String(),
+});
+type PlaylistParamsType = Static<typeof PlaylistParams>;
+
+const ImportRequest = Type.Object(
+  {
+    url: Type.String({ minLength: 1 }),
+    /** Defaults to the title of the video for YouTube links */
+    title: Type.Optional(Type.String({ minLength: 1 })),
+  },
+  { additionalProperties: false }
+);
+export type ImportRequestType = Static<typeof ImportRequest>;
+
+export const importTrack: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.post<{
+      Params: PlaylistParamsType;
+      Body: ImportRequestType;
+      Reply: ImportJobType | ReplyError;
+    }>(
+      "/:id/import",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Import a track into a playlist",
+          description:
+            "YouTube links are downloaded before the track is added. " +
+            "The import runs as a job, use `/v1/jobs/{id}` to follow " +
+            "its progress or cancel it.",
+          params: PlaylistParams,
+          body: ImportRequest,
+          response: {
+            202: ImportJob,
+          },
+        },
+      },
+      async (request, reply) => {
+        const view = manager.getView();
+        if (!view) {
+          reply.status(503).send(VIEW_ERROR);
+          return;
+        }
+        let playlists: PlaylistsReply;
+        try {
+          playlists = await manager.requests.request<PlaylistsReply>(
+            view,
+            "PLAYER_REMOTE_PLAYLIST_GET_ALL_REQUEST",
+            [],
+            { signal: getReplySignal(reply) }
+          );
+        } catch {
+          reply.status(408).send({
+            statusCode: 408,
+            error: "Request Timeout",
+            message: "Unable to retrieve playlists in a reasonable time",
+          });
+          return;
+        }
+        const { id } = request.params;
+        if (!playlists.playlists.some((playlist) => playlist.id === id)) {
+          reply.status(404).send({
+            statusCode: 404,
+            error: "Not Found",
+            message: `Unable to find playlist with id: ${id}`,
+          });
+          return;
+        }
+        const job = manager.startImportJob(
+          id,
+          request.body.url,
+          request.body.title
+        );
+        reply.status(202).send(job);
+      }
+    );
+
+    done();
+  };
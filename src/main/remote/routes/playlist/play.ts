@@ -7,7 +7,7 @@ import { ReplyError, VIEW_ERROR } from "../..";
 const PlayIDRequest = Type.Object({
   id: Type.String(),
 });
-type PlayIDRequestType = Static<typeof PlayIDRequest>;
+export type PlayIDRequestType = Static<typeof PlayIDRequest>;
 
 export const play: (manager: PlayerManager) => FastifyPluginCallback =
   (manager) => (fastify, _, done) => {
@@ -1,21 +1,19 @@
-import { ipcMain } from "electron";
-
 import { Static, Type } from "@sinclair/typebox";
 import { FastifyPluginCallback } from "fastify";
 
 import { PlayerManager } from "../../../managers/PlayerManager";
-import { ReplyError, VIEW_ERROR } from "../../";
+import { getReplySignal, ReplyError, VIEW_ERROR } from "../../";
 import { PlaylistPlaybackReply } from "../../../../types/player";
 
 const MuteRequest = Type.Object({
   mute: Type.Boolean(),
 });
-type MuteRequestType = Static<typeof MuteRequest>;
+export type MuteRequestType = Static<typeof MuteRequest>;
 
 const VolumeRequest = Type.Object({
   volume: Type.Number(),
 });
-type VolumeRequestType = Static<typeof VolumeRequest>;
+export type VolumeRequestType = Static<typeof VolumeRequest>;
 
 const RepeatRequest = Type.Object({
   repeat: Type.Union([
@@ -24,41 +22,34 @@ const RepeatRequest = Type.Object({
     Type.Literal("playlist"),
   ]),
 });
-type RepeatRequestType = Static<typeof RepeatRequest>;
+export type RepeatRequestType = Static<typeof RepeatRequest>;
 
 const ShuffleRequest = Type.Object({
   shuffle: Type.Boolean(),
 });
-type ShuffleRequestType = Static<typeof ShuffleRequest>;
+export type ShuffleRequestType = Static<typeof ShuffleRequest>;
 
 const SeekRequest = Type.Object({
   to: Type.Number(),
 });
-type SeekRequestType = Static<typeof SeekRequest>;
-
-async function waitForPlaybackReply(): Promise<PlaylistPlaybackReply> {
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      reject("Request timeout");
-    }, 5000);
-    ipcMain.once(
-      "PLAYER_REMOTE_PLAYLIST_PLAYBACK_REPLY",
-      (_: Electron.IpcMainEvent, playback: PlaylistPlaybackReply) => {
-        clearTimeout(timeout);
-        resolve(playback);
-      }
-    );
-  });
-}
+export type SeekRequestType = Static<typeof SeekRequest>;
+
+const EmptyReply = Type.Object({});
+export type EmptyReplyType = Static<typeof EmptyReply>;
 
 export const playback: (manager: PlayerManager) => FastifyPluginCallback =
   (manager) => (fastify, _, done) => {
     fastify.get("/", async (_, reply) => {
       const view = manager.getView();
       if (view) {
-        view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_REQUEST");
         try {
-          const playback = await waitForPlaybackReply();
+          const playback =
+            await manager.requests.request<PlaylistPlaybackReply>(
+              view,
+              "PLAYER_REMOTE_PLAYLIST_PLAYBACK_REQUEST",
+              [],
+              { signal: getReplySignal(reply) }
+            );
           reply.status(200).send(playback);
         } catch {
           reply.status(408).send({
@@ -72,25 +63,51 @@ export const playback: (manager: PlayerManager) => FastifyPluginCallback =
       }
     });
 
-    fastify.put("/play", (request, reply) => {
-      const view = manager.getView();
-      if (view) {
-        view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PLAY");
-        reply.status(200).send(request.body);
-      } else {
-        reply.status(503).send(VIEW_ERROR);
+    fastify.put<{
+      Reply: EmptyReplyType | ReplyError;
+    }>(
+      "/play",
+      {
+        schema: {
+          summary: "Resume the current track",
+          response: {
+            200: EmptyReply,
+          },
+        },
+      },
+      (_, reply) => {
+        const view = manager.getView();
+        if (view) {
+          view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PLAY");
+          reply.status(200).send({});
+        } else {
+          reply.status(503).send(VIEW_ERROR);
+        }
       }
-    });
+    );
 
-    fastify.put("/pause", (request, reply) => {
-      const view = manager.getView();
-      if (view) {
-        view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PAUSE");
-        reply.status(200).send(request.body);
-      } else {
-        reply.status(503).send(VIEW_ERROR);
+    fastify.put<{
+      Reply: EmptyReplyType | ReplyError;
+    }>(
+      "/pause",
+      {
+        schema: {
+          summary: "Pause the current track",
+          response: {
+            200: EmptyReply,
+          },
+        },
+      },
+      (_, reply) => {
+        const view = manager.getView();
+        if (view) {
+          view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PAUSE");
+          reply.status(200).send({});
+        } else {
+          reply.status(503).send(VIEW_ERROR);
+        }
       }
-    });
+    );
 
     fastify.put<{
       Body: MuteRequestType;
@@ -169,25 +186,51 @@ export const playback: (manager: PlayerManager) => FastifyPluginCallback =
       }
     );
 
-    fastify.post("/next", (request, reply) => {
-      const view = manager.getView();
-      if (view) {
-        view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_NEXT");
-        reply.status(200).send(request.body);
-      } else {
-        reply.status(503).send(VIEW_ERROR);
+    fastify.post<{
+      Reply: EmptyReplyType | ReplyError;
+    }>(
+      "/next",
+      {
+        schema: {
+          summary: "Play the next track in the queue",
+          response: {
+            200: EmptyReply,
+          },
+        },
+      },
+      (_, reply) => {
+        const view = manager.getView();
+        if (view) {
+          view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_NEXT");
+          reply.status(200).send({});
+        } else {
+          reply.status(503).send(VIEW_ERROR);
+        }
       }
-    });
+    );
 
-    fastify.post("/previous", (request, reply) => {
-      const view = manager.getView();
-      if (view) {
-        view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PREVIOUS");
-        reply.status(200).send(request.body);
-      } else {
-        reply.status(503).send(VIEW_ERROR);
+    fastify.post<{
+      Reply: EmptyReplyType | ReplyError;
+    }>(
+      "/previous",
+      {
+        schema: {
+          summary: "Play the previous track in the queue",
+          response: {
+            200: EmptyReply,
+          },
+        },
+      },
+      (_, reply) => {
+        const view = manager.getView();
+        if (view) {
+          view.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_PREVIOUS");
+          reply.status(200).send({});
+        } else {
+          reply.status(503).send(VIEW_ERROR);
+        }
       }
-    });
+    );
 
     fastify.put<{
       Body: RepeatRequestType;
@@ -0,0 +1,158 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, replyWithViewRequest } from "../..";
+
+const Queue = Type.Object({
+  current: Type.Optional(Type.Integer()),
+  tracks: Type.Array(
+    Type.Object({
+      id: Type.String(),
+      url: Type.String(),
+      title: Type.String(),
+    })
+  ),
+  playlist: Type.Optional(
+    Type.Object({
+      id: Type.String(),
+      title: Type.String(),
+    })
+  ),
+});
+export type QueueType = Static<typeof Queue>;
+
+const TrackParams = Type.Object({
+  id: Type.String(),
+});
+type TrackParamsType = Static<typeof TrackParams>;
+
+const TrackRequest = Type.Object({
+  id: Type.String(),
+});
+export type TrackRequestType = Static<typeof TrackRequest>;
+
+const JumpRequest = Type.Object({
+  index: Type.Integer({ minimum: 0 }),
+});
+export type JumpRequestType = Static<typeof JumpRequest>;
+
+export const queue: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.get<{
+      Reply: QueueType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "Get the tracks of the playing playlist in play order",
+          description:
+            "`current` is the index of the playing track, " +
+            "tracks after it are up next",
+          response: {
+            200: Queue,
+          },
+        },
+      },
+      (_, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_QUEUE_REQUEST"
+        )
+    );
+
+    fastify.post<{
+      Body: TrackRequestType;
+      Reply: QueueType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "Move a track to the end of the queue",
+          body: TrackRequest,
+          response: {
+            200: Queue,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_QUEUE_ADD",
+          [request.body.id, false]
+        )
+    );
+
+    fastify.post<{
+      Body: TrackRequestType;
+      Reply: QueueType | ReplyError;
+    }>(
+      "/next",
+      {
+        schema: {
+          summary: "Play a track after the current track",
+          body: TrackRequest,
+          response: {
+            200: Queue,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_QUEUE_ADD",
+          [request.body.id, true]
+        )
+    );
+
+    fastify.delete<{
+      Params: TrackParamsType;
+      Reply: QueueType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Remove a track from the queue",
+          params: TrackParams,
+          response: {
+            200: Queue,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_QUEUE_REMOVE",
+          [request.params.id]
+        )
+    );
+
+    fastify.put<{
+      Body: JumpRequestType;
+      Reply: QueueType | ReplyError;
+    }>(
+      "/jump",
+      {
+        schema: {
+          summary: "Play the track at an index of the queue",
+          body: JumpRequest,
+          response: {
+            200: Queue,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_PLAYLIST_QUEUE_JUMP",
+          [request.body.index]
+        )
+    );
+
+    done();
+  };
@@ -0,0 +1,294 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, replyWithViewRequest } from "../..";
+import { RemoteBackground } from "../../image";
+
+const Soundboard = Type.Object({
+  id: Type.String(),
+  title: Type.String(),
+  background: Type.String(),
+  sounds: Type.Array(Type.String()),
+});
+export type SoundboardType = Static<typeof Soundboard>;
+
+const Sound = Type.Object({
+  id: Type.String(),
+  title: Type.String(),
+  url: Type.String(),
+  loop: Type.Boolean(),
+  volume: Type.Number(),
+  fadeIn: Type.Number(),
+  fadeOut: Type.Number(),
+});
+export type SoundType = Static<typeof Sound>;
+
+const IDReply = Type.Object({
+  id: Type.String(),
+});
+export type IDReplyType = Static<typeof IDReply>;
+
+const SoundboardParams = Type.Object({
+  id: Type.String(),
+});
+type SoundboardParamsType = Static<typeof SoundboardParams>;
+
+const SoundParams = Type.Object({
+  id: Type.String(),
+  soundId: Type.String(),
+});
+type SoundParamsType = Static<typeof SoundParams>;
+
+const AddSoundboardRequest = Type.Object(
+  {
+    title: Type.String({ minLength: 1 }),
+    background: Type.Optional(RemoteBackground),
+  },
+  { additionalProperties: false }
+);
+export type AddSoundboardRequestType = Static<typeof AddSoundboardRequest>;
+
+const EditSoundboardRequest = Type.Object(
+  {
+    title: Type.Optional(Type.String({ minLength: 1 })),
+    background: Type.Optional(RemoteBackground),
+  },
+  { additionalProperties: false }
+);
+export type EditSoundboardRequestType = Static<typeof EditSoundboardRequest>;
+
+const SoundOptions = {
+  loop: Type.Optional(Type.Boolean()),
+  volume: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+  /** Fade in duration in milliseconds */
+  fadeIn: Type.Optional(Type.Integer({ minimum: 0 })),
+  /** Fade out duration in milliseconds */
+  fadeOut: Type.Optional(Type.Integer({ minimum: 0 })),
+};
+
+const AddSoundsRequest = Type.Array(
+  Type.Object(
+    {
+      title: Type.String({ minLength: 1 }),
+      url: Type.String({ minLength: 1 }),
+      ...SoundOptions,
+    },
+    { additionalProperties: false }
+  ),
+  { minItems: 1 }
+);
+export type AddSoundsRequestType = Static<typeof AddSoundsRequest>;
+
+const EditSoundRequest = Type.Object(
+  {
+    title: Type.Optional(Type.String({ minLength: 1 })),
+    url: Type.Optional(Type.String({ minLength: 1 })),
+    ...SoundOptions,
+  },
+  { additionalProperties: false }
+);
+export type EditSoundRequestType = Static<typeof EditSoundRequest>;
+
+const MoveRequest = Type.Object({
+  /** ID of the item to move this item in front of */
+  over: Type.String(),
+});
+export type MoveRequestType = Static<typeof MoveRequest>;
+
+export const edit: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.post<{
+      Body: AddSoundboardRequestType;
+      Reply: SoundboardType | ReplyError;
+    }>(
+      "/",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Create a soundboard",
+          body: AddSoundboardRequest,
+          response: {
+            200: Soundboard,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_SOUNDBOARD_ADD", [
+          request.body,
+        ])
+    );
+
+    fastify.patch<{
+      Params: SoundboardParamsType;
+      Body: EditSoundboardRequestType;
+      Reply: SoundboardType | ReplyError;
+    }>(
+      "/:id",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Edit a soundboard's title or background",
+          params: SoundboardParams,
+          body: EditSoundboardRequest,
+          response: {
+            200: Soundboard,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_SOUNDBOARD_EDIT", [
+          request.params.id,
+          request.body,
+        ])
+    );
+
+    fastify.delete<{
+      Params: SoundboardParamsType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Delete a soundboard and its sounds",
+          params: SoundboardParams,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_SOUNDBOARD_REMOVE", [
+          request.params.id,
+        ])
+    );
+
+    fastify.put<{
+      Params: SoundboardParamsType;
+      Body: MoveRequestType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id/move",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Move a soundboard in front of another soundboard",
+          params: SoundboardParams,
+          body: MoveRequest,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(manager, reply, "PLAYER_REMOTE_SOUNDBOARD_MOVE", [
+          request.params.id,
+          request.body.over,
+        ])
+    );
+
+    fastify.post<{
+      Params: SoundboardParamsType;
+      Body: AddSoundsRequestType;
+      Reply: SoundType[] | ReplyError;
+    }>(
+      "/:id/sounds",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Add sounds to a soundboard",
+          params: SoundboardParams,
+          body: AddSoundsRequest,
+          response: {
+            200: Type.Array(Sound),
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_SOUNDS_ADD",
+          [request.params.id, request.body]
+        )
+    );
+
+    fastify.patch<{
+      Params: SoundParamsType;
+      Body: EditSoundRequestType;
+      Reply: SoundType | ReplyError;
+    }>(
+      "/:id/sounds/:soundId",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Edit a sound's title, url or playback options",
+          params: SoundParams,
+          body: EditSoundRequest,
+          response: {
+            200: Sound,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_SOUND_EDIT",
+          [request.params.id, request.params.soundId, request.body]
+        )
+    );
+
+    fastify.delete<{
+      Params: SoundParamsType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id/sounds/:soundId",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Remove a sound from a soundboard",
+          params: SoundParams,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_SOUND_REMOVE",
+          [request.params.id, request.params.soundId]
+        )
+    );
+
+    fastify.put<{
+      Params: SoundParamsType;
+      Body: MoveRequestType;
+      Reply: SoundboardType | ReplyError;
+    }>(
+      "/:id/sounds/:soundId/move",
+      {
+        config: { scope: "library" },
+        schema: {
+          summary: "Move a sound in front of another sound in its soundboard",
+          params: SoundParams,
+          body: MoveRequest,
+          response: {
+            200: Soundboard,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_SOUND_MOVE",
+          [request.params.id, request.params.soundId, request.body.over]
+        )
+    );
+
+    done();
+  };
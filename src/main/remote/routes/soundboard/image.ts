@@ -0,0 +1,14 @@
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { imageRoute } from "../../image";
+import { SoundboardsReply } from "../../../../types/player";
+
+export const image: (manager: PlayerManager) => FastifyPluginCallback = (
+  manager
+) =>
+  imageRoute(manager, {
+    name: "soundboard",
+    channel: "PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST",
+    getItems: (reply: SoundboardsReply) => reply.soundboards,
+  });
@@ -4,10 +4,19 @@ import { FastifyPluginCallback } from "fastify";
 import { PlayerManager } from "../../../managers/PlayerManager";
 import { ReplyError, VIEW_ERROR } from "../..";
 
-const PlayIDRequest = Type.Object({
-  id: Type.String(),
-});
-type PlayIDRequestType = Static<typeof PlayIDRequest>;
+const PlayIDRequest = Type.Object(
+  {
+    id: Type.String(),
+    /** One-off overrides for this playback that aren't saved to the sound */
+    volume: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+    loop: Type.Optional(Type.Boolean()),
+    fadeIn: Type.Optional(Type.Integer({ minimum: 0 })),
+    fadeOut: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  // Strip unknown properties so they can't override other sound fields
+  { additionalProperties: false }
+);
+export type PlayIDRequestType = Static<typeof PlayIDRequest>;
 
 export const play: (manager: PlayerManager) => FastifyPluginCallback =
   (manager) => (fastify, _, done) => {
@@ -18,6 +27,7 @@ export const play: (manager: PlayerManager) => FastifyPluginCallback =
       "/",
       {
         schema: {
+          summary: "Play a sound with optional one-off overrides",
           body: PlayIDRequest,
           response: {
             200: PlayIDRequest,
@@ -25,10 +35,10 @@ export const play: (manager: PlayerManager) => FastifyPluginCallback =
         },
       },
       (request, reply) => {
-        const id = request.body.id;
+        const { id, ...overrides } = request.body;
         const view = manager.getView();
         if (view) {
-          view.send("PLAYER_REMOTE_SOUNDBOARD_PLAY", id);
+          view.send("PLAYER_REMOTE_SOUNDBOARD_PLAY", id, overrides);
           reply.status(200).send(request.body);
         } else {
           reply.status(503).send(VIEW_ERROR);
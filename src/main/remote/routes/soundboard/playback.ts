@@ -1,34 +1,61 @@
-import { ipcMain } from "electron";
-
+import { Static, Type } from "@sinclair/typebox";
 import { FastifyPluginCallback } from "fastify";
 
 import { PlayerManager } from "../../../managers/PlayerManager";
-import { VIEW_ERROR } from "../../";
+import {
+  getReplySignal,
+  ReplyError,
+  replyWithViewRequest,
+  VIEW_ERROR,
+} from "../../";
 import { SoundboardPlaybackReply } from "../../../../types/player";
 
-async function waitForPlaybackReply(): Promise<SoundboardPlaybackReply> {
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      reject("Request timeout");
-    }, 5000);
-    ipcMain.once(
-      "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REPLY",
-      (_: Electron.IpcMainEvent, playback: SoundboardPlaybackReply) => {
-        clearTimeout(timeout);
-        resolve(playback);
-      }
-    );
-  });
-}
+const SoundPlayback = Type.Object({
+  id: Type.String(),
+  url: Type.String(),
+  title: Type.String(),
+  loop: Type.Boolean(),
+  volume: Type.Number(),
+  fadeIn: Type.Number(),
+  fadeOut: Type.Number(),
+  duration: Type.Number(),
+  progress: Type.Number(),
+});
+export type SoundPlaybackType = Static<typeof SoundPlayback>;
+
+const SoundParams = Type.Object({
+  id: Type.String(),
+});
+type SoundParamsType = Static<typeof SoundParams>;
+
+const VolumeRequest = Type.Object({
+  volume: Type.Number({ minimum: 0, maximum: 1 }),
+});
+export type VolumeRequestType = Static<typeof VolumeRequest>;
+
+const SeekRequest = Type.Object({
+  to: Type.Number({ minimum: 0 }),
+});
+export type SeekRequestType = Static<typeof SeekRequest>;
+
+const LoopRequest = Type.Object({
+  loop: Type.Boolean(),
+});
+export type LoopRequestType = Static<typeof LoopRequest>;
 
 export const playback: (manager: PlayerManager) => FastifyPluginCallback =
   (manager) => (fastify, _, done) => {
     fastify.get("/", async (_, reply) => {
       const view = manager.getView();
       if (view) {
-        view.send("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REQUEST");
         try {
-          const playback = await waitForPlaybackReply();
+          const playback =
+            await manager.requests.request<SoundboardPlaybackReply>(
+              view,
+              "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REQUEST",
+              [],
+              { signal: getReplySignal(reply) }
+            );
           reply.status(200).send(playback);
         } catch {
           reply.status(408).send({
@@ -42,5 +69,82 @@ export const playback: (manager: PlayerManager) => FastifyPluginCallback =
       }
     });
 
+    // Changes to a single playing sound that aren't saved to the soundboard
+
+    fastify.put<{
+      Params: SoundParamsType;
+      Body: VolumeRequestType;
+      Reply: SoundPlaybackType | ReplyError;
+    }>(
+      "/:id/volume",
+      {
+        schema: {
+          summary: "Set the volume of a playing sound",
+          params: SoundParams,
+          body: VolumeRequest,
+          response: {
+            200: SoundPlayback,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_VOLUME",
+          [request.params.id, request.body.volume]
+        )
+    );
+
+    fastify.put<{
+      Params: SoundParamsType;
+      Body: SeekRequestType;
+      Reply: SoundPlaybackType | ReplyError;
+    }>(
+      "/:id/seek",
+      {
+        schema: {
+          summary: "Seek a playing sound to a time in seconds",
+          params: SoundParams,
+          body: SeekRequest,
+          response: {
+            200: SoundPlayback,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_SEEK",
+          [request.params.id, request.body.to]
+        )
+    );
+
+    fastify.put<{
+      Params: SoundParamsType;
+      Body: LoopRequestType;
+      Reply: SoundPlaybackType | ReplyError;
+    }>(
+      "/:id/loop",
+      {
+        schema: {
+          summary: "Set whether a playing sound loops",
+          params: SoundParams,
+          body: LoopRequest,
+          response: {
+            200: SoundPlayback,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithViewRequest(
+          manager,
+          reply,
+          "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_LOOP",
+          [request.params.id, request.body.loop]
+        )
+    );
+
     done();
   };
@@ -7,7 +7,7 @@ import { ReplyError, VIEW_ERROR } from "../..";
 const StopIDRequest = Type.Object({
   id: Type.String(),
 });
-type StopIDRequestType = Static<typeof StopIDRequest>;
+export type StopIDRequestType = Static<typeof StopIDRequest>;
 
 export const stop: (manager: PlayerManager) => FastifyPluginCallback =
   (manager) => (fastify, _, done) => {
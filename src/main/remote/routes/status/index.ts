@@ -0,0 +1,61 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+
+const Status = Type.Object({
+  version: Type.String(),
+  discord: Type.Object({
+    status: Type.Union([
+      Type.Literal("disconnected"),
+      Type.Literal("connecting"),
+      Type.Literal("ready"),
+    ]),
+    user: Type.Optional(Type.String()),
+    voiceChannels: Type.Array(
+      Type.Object({
+        id: Type.String(),
+        name: Type.String(),
+        guildId: Type.String(),
+        guildName: Type.String(),
+        status: Type.String(),
+      })
+    ),
+    audioPlayer: Type.String(),
+  }),
+  audioCapture: Type.Object({
+    streamingMode: Type.Optional(
+      Type.Union([Type.Literal("lowLatency"), Type.Literal("performance")])
+    ),
+    streaming: Type.Boolean(),
+    loopback: Type.Boolean(),
+    inputs: Type.Array(Type.String()),
+  }),
+  playerView: Type.Boolean(),
+});
+export type StatusType = Static<typeof Status>;
+
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.get<{
+      Reply: StatusType;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "Get the state of Kenku FM",
+          description:
+            "Answered without the player view so it can be used as a " +
+            "health check.",
+          response: {
+            200: Status,
+          },
+        },
+      },
+      (_, reply) => {
+        reply.status(200).send(manager.getStatus());
+      }
+    );
+
+    done();
+  };
@@ -0,0 +1,127 @@
+import { Static, Type } from "@sinclair/typebox";
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { ReplyError, replyWithWindowRequest } from "../..";
+
+const Tab = Type.Object({
+  id: Type.Integer(),
+  title: Type.String(),
+  url: Type.String(),
+  playing: Type.Boolean(),
+  muted: Type.Boolean(),
+  selected: Type.Boolean(),
+  player: Type.Boolean(),
+});
+export type TabType = Static<typeof Tab>;
+
+const Tabs = Type.Object({
+  tabs: Type.Array(Tab),
+});
+export type TabsType = Static<typeof Tabs>;
+
+const IDReply = Type.Object({
+  id: Type.Integer(),
+});
+export type IDReplyType = Static<typeof IDReply>;
+
+const TabParams = Type.Object({
+  id: Type.Integer(),
+});
+type TabParamsType = Static<typeof TabParams>;
+
+// Only open web pages so remote clients can't open local files
+const OpenRequest = Type.Object({
+  url: Type.String({ pattern: "^[hH][tT][tT][pP][sS]?://\\S+$" }),
+});
+export type OpenRequestType = Static<typeof OpenRequest>;
+
+const MuteRequest = Type.Object({
+  mute: Type.Boolean(),
+});
+export type MuteRequestType = Static<typeof MuteRequest>;
+
+export const tabs: (manager: PlayerManager) => FastifyPluginCallback =
+  (manager) => (fastify, _, done) => {
+    fastify.get<{
+      Reply: TabsType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "List the browser tabs including the Kenku Player",
+          response: {
+            200: Tabs,
+          },
+        },
+      },
+      (_, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_TABS_REQUEST")
+    );
+
+    fastify.post<{
+      Body: OpenRequestType;
+      Reply: TabType | ReplyError;
+    }>(
+      "/",
+      {
+        schema: {
+          summary: "Open a http or https URL in a new tab",
+          body: OpenRequest,
+          response: {
+            200: Tab,
+          },
+        },
+        config: { scope: "library" },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_TABS_OPEN", [
+          request.body.url,
+        ])
+    );
+
+    fastify.delete<{
+      Params: TabParamsType;
+      Reply: IDReplyType | ReplyError;
+    }>(
+      "/:id",
+      {
+        schema: {
+          summary: "Close a tab",
+          params: TabParams,
+          response: {
+            200: IDReply,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_TABS_CLOSE", [
+          request.params.id,
+        ])
+    );
+
+    fastify.put<{
+      Params: TabParamsType;
+      Body: MuteRequestType;
+      Reply: TabType | ReplyError;
+    }>(
+      "/:id/mute",
+      {
+        schema: {
+          summary: "Mute or unmute the audio of a tab",
+          params: TabParams,
+          body: MuteRequest,
+          response: {
+            200: Tab,
+          },
+        },
+      },
+      (request, reply) =>
+        replyWithWindowRequest(manager, reply, "REMOTE_TABS_MUTE", [
+          request.params.id,
+          request.body.mute,
+        ])
+    );
+
+    done();
+  };
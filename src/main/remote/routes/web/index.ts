@@ -0,0 +1,14 @@
+import { FastifyPluginCallback } from "fastify";
+
+import { PlayerManager } from "../../../managers/PlayerManager";
+import { remotePage } from "../../remotePage";
+
+/** Web remote control surface for phones and tablets */
+export const get: (manager: PlayerManager) => FastifyPluginCallback =
+  () => (fastify, _, done) => {
+    fastify.get("/", (_, reply) => {
+      reply.status(200).type("text/html").send(remotePage);
+    });
+
+    done();
+  };
@@ -10,7 +10,10 @@ import { Player } from "../features/player/Player";
 import { usePlaylistPlayback } from "../features/playlists/usePlaylistPlayback";
 import { PlaylistMediaSession } from "../features/playlists/PlaylistMediaSession";
 import { PlaylistRemote } from "../features/playlists/PlaylistRemote";
+import { PlaylistRemoteEdit } from "../features/playlists/PlaylistRemoteEdit";
+import { PlaylistRemoteQueue } from "../features/playlists/PlaylistRemoteQueue";
 import { PlaylistPlaybackSync } from "../features/playlists/PlaylistPlaybackSync";
+import { PlaylistPlaybackEvents } from "../features/playlists/PlaylistPlaybackEvents";
 import { Playlists } from "../features/playlists/Playlists";
 import { Playlist } from "../features/playlists/Playlist";
 
@@ -20,7 +23,12 @@ import { Soundboards } from "../features/soundboards/Soundboards";
 import { Soundboard } from "../features/soundboards/Soundboard";
 import { useSoundboardPlayback } from "../features/soundboards/useSoundboardPlayback";
 import { SoundboardRemote } from "../features/soundboards/SoundboardRemote";
+import { SoundboardRemoteEdit } from "../features/soundboards/SoundboardRemoteEdit";
 import { SoundboardPlaybackSync } from "../features/soundboards/SoundboardPlaybackSync";
+import { SoundboardPlaybackEvents } from "../features/soundboards/SoundboardPlaybackEvents";
+import { MasterRemote } from "../features/master/MasterRemote";
+import { MasterPlaybackSync } from "../features/master/MasterPlaybackSync";
+import { ImageRemote } from "../common/ImageRemote";
 
 const WallPaper = styled("div")({
   position: "fixed",
@@ -43,6 +51,16 @@ export function App() {
   const playlist = usePlaylistPlayback(handleError);
   const soundboard = useSoundboardPlayback(handleError);
 
+  const { stop: stopPlaylist } = playlist;
+  const { stopAll: stopSounds } = soundboard;
+  const handleStopAll = useCallback(
+    (fade: number) => {
+      stopPlaylist(fade);
+      stopSounds(fade);
+    },
+    [stopPlaylist, stopSounds]
+  );
+
   return (
     <>
       <WallPaper />
@@ -77,6 +95,7 @@ export function App() {
         onPlaylistNext={playlist.next}
         onPlaylistPrevious={playlist.previous}
         onSoundboardStop={soundboard.stop}
+        onStopAll={handleStopAll}
       />
       <PlaylistMediaSession
         onSeek={playlist.seek}
@@ -90,13 +109,27 @@ export function App() {
         onNext={playlist.next}
         onPrevious={playlist.previous}
       />
+      <PlaylistRemoteEdit />
+      <PlaylistRemoteQueue onPlay={playlist.play} />
       <PlaylistPlaybackSync
         onMute={playlist.mute}
         onPauseResume={playlist.pauseResume}
         onVolume={playlist.volume}
       />
-      <SoundboardRemote onPlay={soundboard.play} onStop={soundboard.stop} />
+      <PlaylistPlaybackEvents />
+      <SoundboardRemote
+        onPlay={soundboard.play}
+        onStop={soundboard.stop}
+        onSeek={soundboard.seek}
+        onVolume={soundboard.volume}
+        onLoop={soundboard.loop}
+      />
+      <SoundboardRemoteEdit onStop={soundboard.stop} />
       <SoundboardPlaybackSync onSync={soundboard.sync} />
+      <SoundboardPlaybackEvents />
+      <MasterRemote onStopAll={handleStopAll} />
+      <ImageRemote />
+      <MasterPlaybackSync />
       <Snackbar
         open={Boolean(errorMessage)}
         autoHideDuration={4000}
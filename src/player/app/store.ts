@@ -3,6 +3,7 @@ import playlistsReducer from "../features/playlists/playlistsSlice";
 import soundboardsReducer from "../features/soundboards/soundboardsSlice";
 import playlsitPlaybackReducer from "../features/playlists/playlistPlaybackSlice";
 import soundboardPlaybackReducer from "../features/soundboards/soundboardPlaybackSlice";
+import masterReducer from "../features/master/masterSlice";
 
 import {
   persistStore,
@@ -31,13 +32,14 @@ const rootReducer = combineReducers({
     playlsitPlaybackReducer
   ),
   soundboardPlayback: soundboardPlaybackReducer,
+  master: masterReducer,
 });
 
 const persistConfig = {
   key: "player",
   version: 1,
   storage,
-  whitelist: ["playlists", "soundboards"],
+  whitelist: ["playlists", "soundboards", "master"],
 };
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
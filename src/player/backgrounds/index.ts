@@ -26,3 +26,8 @@ export function getRandomBackground(): Background {
 export function isBackground(background: string): background is Background {
   return background in backgrounds;
 }
+
+/** Check a background set from the remote is built-in or an image url */
+export function isValidBackground(background: string) {
+  return isBackground(background) || /^(file|data|https?):/.test(background);
+}
@@ -0,0 +1,131 @@
+import React, { useEffect } from "react";
+
+import { backgrounds, isBackground } from "../backgrounds";
+import { RemoteImageOptions, RemoteImageSource } from "../../types/player";
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to decode image"));
+    image.src = src;
+  });
+}
+
+/** Shorten text with an ellipsis so it fits in `maxWidth` */
+function fitText(
+  context: OffscreenCanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+) {
+  if (context.measureText(text).width <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted && context.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+/**
+ * Draw an image to a PNG
+ * The image is cropped to fill the size when both dimensions are given
+ * otherwise the missing dimension keeps the aspect ratio of the image
+ */
+async function renderImage(src: string, options: RemoteImageOptions) {
+  const image = await loadImage(src);
+  const aspect = image.naturalWidth / image.naturalHeight || 1;
+  const width = Math.round(
+    options.width || (options.height ? options.height * aspect : 0) ||
+      image.naturalWidth
+  );
+  const height = Math.round(
+    options.height || width / aspect || image.naturalHeight
+  );
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  const scale = Math.max(
+    width / image.naturalWidth,
+    height / image.naturalHeight
+  );
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  context.drawImage(
+    image,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+
+  if (options.title) {
+    const fontSize = Math.max(Math.round(Math.min(width, height) / 8), 8);
+    const padding = Math.round(fontSize / 2);
+    const gradient = context.createLinearGradient(0, height / 2, 0, height);
+    gradient.addColorStop(0, "rgba(0, 0, 0, 0)");
+    gradient.addColorStop(1, "rgba(0, 0, 0, 0.8)");
+    context.fillStyle = gradient;
+    context.fillRect(0, height / 2, width, height / 2);
+    context.font = `bold ${fontSize}px Roboto, sans-serif`;
+    context.fillStyle = "#fff";
+    context.textBaseline = "bottom";
+    context.fillText(
+      fitText(context, options.title, width - padding * 2),
+      padding,
+      height - padding
+    );
+  }
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function ImageRemote() {
+  useEffect(() => {
+    window.player.on("PLAYER_REMOTE_IMAGE_RENDER", async (args) => {
+      const requestId: string = args[0];
+      const source: RemoteImageSource = args[1];
+      const options: RemoteImageOptions = args[2];
+      let src: string;
+      if ("background" in source) {
+        if (!isBackground(source.background)) {
+          window.player.remoteReplyError(requestId, {
+            statusCode: 404,
+            error: "Not Found",
+            message: `Unable to find background: ${source.background}`,
+          });
+          return;
+        }
+        src = backgrounds[source.background];
+      } else {
+        src = URL.createObjectURL(
+          new Blob([new Uint8Array(source.data)], {
+            type: source.contentType,
+          })
+        );
+      }
+      try {
+        const data = await renderImage(src, options);
+        window.player.remoteReply(requestId, data);
+      } catch (e) {
+        window.player.remoteReplyError(requestId, {
+          statusCode: 415,
+          error: "Unsupported Media Type",
+          message: e.message,
+        });
+      } finally {
+        if (!("background" in source)) {
+          URL.revokeObjectURL(src);
+        }
+      }
+    });
+
+    return () => {
+      window.player.removeAllListeners("PLAYER_REMOTE_IMAGE_RENDER");
+    };
+  }, []);
+
+  return <></>;
+}
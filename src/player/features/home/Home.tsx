@@ -68,7 +68,7 @@ export function Home({ onPlayTrack, onPlaySound }: HomeProps) {
         flexDirection: "column",
         gap: 2,
         mt: 4,
-        mb: "248px",
+        mb: "288px",
       }}
     >
       <Card>
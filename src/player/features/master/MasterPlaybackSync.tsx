@@ -0,0 +1,16 @@
+import React, { useEffect } from "react";
+
+import { useSelector } from "react-redux";
+import { RootState } from "../../app/store";
+
+// Sync the master volume with the audio capture output
+// This is done in a empty component to avoid re-rendering any children
+export function MasterPlaybackSync() {
+  const volume = useSelector((state: RootState) => state.master.volume);
+
+  useEffect(() => {
+    window.player.setMasterVolume(volume);
+  }, [volume]);
+
+  return <></>;
+}
@@ -0,0 +1,36 @@
+import React, { useEffect } from "react";
+
+import { useDispatch } from "react-redux";
+import { adjustMasterVolume } from "./masterSlice";
+
+type MasterRemoteProps = {
+  onStopAll: (fade: number) => void;
+};
+
+export function MasterRemote({ onStopAll }: MasterRemoteProps) {
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    window.player.on("PLAYER_REMOTE_MASTER_VOLUME", (args) => {
+      const volume = args[0];
+      dispatch(adjustMasterVolume(volume));
+    });
+
+    return () => {
+      window.player.removeAllListeners("PLAYER_REMOTE_MASTER_VOLUME");
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    window.player.on("PLAYER_REMOTE_STOP_ALL", (args) => {
+      const fade = args[0];
+      onStopAll(fade);
+    });
+
+    return () => {
+      window.player.removeAllListeners("PLAYER_REMOTE_STOP_ALL");
+    };
+  }, [onStopAll]);
+
+  return <></>;
+}
@@ -0,0 +1,24 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+
+export interface MasterState {
+  /** Volume of the combined audio output including browser tabs */
+  volume: number;
+}
+
+const initialState: MasterState = {
+  volume: 1,
+};
+
+export const masterSlice = createSlice({
+  name: "master",
+  initialState,
+  reducers: {
+    adjustMasterVolume: (state, action: PayloadAction<number>) => {
+      state.volume = action.payload;
+    },
+  },
+});
+
+export const { adjustMasterVolume } = masterSlice.actions;
+
+export default masterSlice.reducer;
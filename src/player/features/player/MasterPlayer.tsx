@@ -0,0 +1,73 @@
+import React from "react";
+
+import Button from "@mui/material/Button";
+import Slider from "@mui/material/Slider";
+import Stack from "@mui/material/Stack";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import StopAll from "@mui/icons-material/StopCircleRounded";
+import Speaker from "@mui/icons-material/SpeakerRounded";
+
+import { useDispatch, useSelector } from "react-redux";
+import { RootState } from "../../app/store";
+import { adjustMasterVolume } from "../master/masterSlice";
+
+/** Fade out duration in milliseconds when stopping everything */
+const STOP_ALL_FADE = 1000;
+
+type MasterPlayerProps = {
+  onStopAll: (fade: number) => void;
+};
+
+export function MasterPlayer({ onStopAll }: MasterPlayerProps) {
+  const dispatch = useDispatch();
+  const volume = useSelector((state: RootState) => state.master.volume);
+
+  function handleVolumeChange(_: Event, value: number | number[]) {
+    dispatch(adjustMasterVolume(value as number));
+  }
+
+  return (
+    <Stack
+      direction="row"
+      alignItems="center"
+      justifyContent="space-between"
+      gap={2}
+      pb={1}
+    >
+      <Tooltip title="Fade out the playlist and all sounds">
+        <Button
+          size="small"
+          color="inherit"
+          startIcon={<StopAll />}
+          onClick={() => onStopAll(STOP_ALL_FADE)}
+        >
+          Stop All
+        </Button>
+      </Tooltip>
+      <Stack
+        direction="row"
+        alignItems="center"
+        gap={1}
+        sx={{ width: 200, px: 1 }}
+      >
+        <Tooltip title="Master Volume">
+          <Speaker fontSize="small" />
+        </Tooltip>
+        <Slider
+          aria-label="Master Volume"
+          size="small"
+          value={volume}
+          step={0.01}
+          min={0}
+          max={1}
+          onChange={handleVolumeChange}
+          sx={{ color: "#fff" }}
+        />
+        <Typography variant="caption" sx={{ minWidth: 32 }}>
+          {Math.round(volume * 100)}%
+        </Typography>
+      </Stack>
+    </Stack>
+  );
+}
@@ -5,12 +5,14 @@ import Container from "@mui/material/Container";
 
 import { SoundboardPlayer } from "./SoundboardPlayer";
 import { PlaylistPlayer } from "./PlaylistPlayer";
+import { MasterPlayer } from "./MasterPlayer";
 
 type PlayerProps = {
   onPlaylistNext: () => void;
   onPlaylistPrevious: () => void;
   onPlaylistSeek: (to: number) => void;
   onSoundboardStop: (id: string) => void;
+  onStopAll: (fade: number) => void;
 };
 
 export function Player({
@@ -18,6 +20,7 @@ export function Player({
   onPlaylistPrevious,
   onPlaylistSeek,
   onSoundboardStop,
+  onStopAll,
 }: PlayerProps) {
   return (
     <Container
@@ -38,6 +41,7 @@ export function Player({
           p: 2,
         }}
       >
+        <MasterPlayer onStopAll={onStopAll} />
         <SoundboardPlayer onSoundboardStop={onSoundboardStop} />
         <PlaylistPlayer
           onPlaylistNext={onPlaylistNext}
@@ -0,0 +1,77 @@
+import React, { useEffect } from "react";
+
+import { useSelector } from "react-redux";
+import { RootState } from "../../app/store";
+
+// Push playlist playback changes to the remote event stream
+// This is done in a empty component to avoid re-rendering any children
+export function PlaylistPlaybackEvents() {
+  const playlists = useSelector((state: RootState) => state.playlists);
+  const track = useSelector((state: RootState) => state.playlistPlayback.track);
+  const playback = useSelector(
+    (state: RootState) => state.playlistPlayback.playback
+  );
+  const queue = useSelector((state: RootState) => state.playlistPlayback.queue);
+  const playing = useSelector(
+    (state: RootState) => state.playlistPlayback.playing
+  );
+  const volume = useSelector(
+    (state: RootState) => state.playlistPlayback.volume
+  );
+  const muted = useSelector((state: RootState) => state.playlistPlayback.muted);
+  const shuffle = useSelector(
+    (state: RootState) => state.playlistPlayback.shuffle
+  );
+  const repeat = useSelector(
+    (state: RootState) => state.playlistPlayback.repeat
+  );
+
+  const playlistId = queue?.playlistId;
+  const playlistTitle = playlists.playlists.byId[playlistId]?.title;
+  const duration = playback?.duration;
+
+  useEffect(() => {
+    window.player.remoteEvent({
+      type: "playlist-track",
+      track: track
+        ? { ...track, progress: 0, duration: duration || 0 }
+        : undefined,
+      playlist: playlistId
+        ? { id: playlistId, title: playlistTitle }
+        : undefined,
+    });
+    // Only push a new event when the track or playlist changes
+  }, [track?.id, duration, playlistId, playlistTitle]);
+
+  useEffect(() => {
+    if (playback) {
+      window.player.remoteEvent({
+        type: "playlist-progress",
+        progress: playback.progress,
+        duration: playback.duration,
+      });
+    }
+  }, [playback]);
+
+  useEffect(() => {
+    window.player.remoteEvent({ type: "playlist-playing", playing });
+  }, [playing]);
+
+  useEffect(() => {
+    window.player.remoteEvent({ type: "playlist-volume", volume });
+  }, [volume]);
+
+  useEffect(() => {
+    window.player.remoteEvent({ type: "playlist-mute", muted });
+  }, [muted]);
+
+  useEffect(() => {
+    window.player.remoteEvent({ type: "playlist-shuffle", shuffle });
+  }, [shuffle]);
+
+  useEffect(() => {
+    window.player.remoteEvent({ type: "playlist-repeat", repeat });
+  }, [repeat]);
+
+  return <></>;
+}
@@ -70,7 +70,8 @@ export function PlaylistRemote({
   }, [onPlay, playlists, playbackShuffle]);
 
   useEffect(() => {
-    window.player.on("PLAYER_REMOTE_PLAYLIST_PLAYBACK_REQUEST", () => {
+    window.player.on("PLAYER_REMOTE_PLAYLIST_PLAYBACK_REQUEST", (args) => {
+      const requestId = args[0];
       let track = undefined;
       if (playback.track && playback.playback && playback.queue) {
         track = {
@@ -85,7 +86,7 @@ export function PlaylistRemote({
           title: playlists.playlists.byId[playback.queue.playlistId]?.title,
         };
       }
-      window.player.playlistPlaybackReply({
+      window.player.playlistPlaybackReply(requestId, {
         playing: playback.playing,
         volume: playback.volume,
         muted: playback.muted,
@@ -104,8 +105,9 @@ export function PlaylistRemote({
   }, [playback]);
 
   useEffect(() => {
-    window.player.on("PLAYER_REMOTE_PLAYLIST_GET_ALL_REQUEST", () => {
-      window.player.playlistGetAllReply({
+    window.player.on("PLAYER_REMOTE_PLAYLIST_GET_ALL_REQUEST", (args) => {
+      const requestId = args[0];
+      window.player.playlistGetAllReply(requestId, {
         playlists: playlists.playlists.allIds.map(
           (id) => playlists.playlists.byId[id]
         ),
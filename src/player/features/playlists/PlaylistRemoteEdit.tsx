@@ -0,0 +1,194 @@
+import React, { useEffect } from "react";
+
+import { v4 as uuid } from "uuid";
+
+import { useDispatch, useStore } from "react-redux";
+import { RootState } from "../../app/store";
+import {
+  addPlaylist,
+  addTrack,
+  editPlaylist,
+  editTrack,
+  movePlaylist,
+  moveTrack,
+  removePlaylist,
+  removeTrack,
+  Playlist,
+  Track,
+} from "./playlistsSlice";
+import {
+  addTrackToQueueIfNeeded,
+  moveQueueIfNeeded,
+  playPause,
+  removeTrackFromQueue,
+  stopTrack,
+} from "./playlistPlaybackSlice";
+import { getRandomBackground, isValidBackground } from "../../backgrounds";
+
+function notFound(requestId: string, message: string) {
+  window.player.remoteReplyError(requestId, {
+    statusCode: 404,
+    error: "Not Found",
+    message,
+  });
+}
+
+/** Reply with an error if a background isn't built-in or an image url */
+function checkBackground(requestId: string, background?: string) {
+  if (background && !isValidBackground(background)) {
+    window.player.remoteReplyError(requestId, {
+      statusCode: 400,
+      error: "Bad Request",
+      message: `Unknown background: ${background}`,
+    });
+    return false;
+  }
+  return true;
+}
+
+// Handle remote requests that edit the playlist library
+export function PlaylistRemoteEdit() {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    function getPlaylist(requestId: string, id: string): Playlist | undefined {
+      const playlist = store.getState().playlists.playlists.byId[id];
+      if (!playlist) {
+        notFound(requestId, `Unable to find playlist with id: ${id}`);
+      }
+      return playlist;
+    }
+
+    function getTrack(
+      requestId: string,
+      playlist: Playlist,
+      trackId: string
+    ): Track | undefined {
+      const track = store.getState().playlists.tracks[trackId];
+      if (!track || !playlist.tracks.includes(trackId)) {
+        notFound(requestId, `Unable to find track with id: ${trackId}`);
+        return undefined;
+      }
+      return track;
+    }
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_ADD", (args) => {
+      const [requestId, { title, background }] = args;
+      if (!checkBackground(requestId, background)) {
+        return;
+      }
+      const playlist: Playlist = {
+        id: uuid(),
+        title,
+        background: background || getRandomBackground(),
+        tracks: [],
+      };
+      dispatch(addPlaylist(playlist));
+      window.player.remoteReply(requestId, playlist);
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_EDIT", (args) => {
+      const [requestId, id, changes] = args;
+      if (
+        checkBackground(requestId, changes.background) &&
+        getPlaylist(requestId, id)
+      ) {
+        dispatch(editPlaylist({ ...changes, id }));
+        window.player.remoteReply(
+          requestId,
+          store.getState().playlists.playlists.byId[id]
+        );
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_REMOVE", (args) => {
+      const [requestId, id] = args;
+      if (getPlaylist(requestId, id)) {
+        const playback = store.getState().playlistPlayback;
+        // Stop playback if the playlist being removed is playing
+        if (playback.queue?.playlistId === id) {
+          dispatch(playPause(false));
+          dispatch(stopTrack());
+        }
+        dispatch(removePlaylist(id));
+        window.player.remoteReply(requestId, { id });
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_MOVE", (args) => {
+      const [requestId, id, over] = args;
+      if (getPlaylist(requestId, id) && getPlaylist(requestId, over)) {
+        dispatch(movePlaylist({ active: id, over }));
+        window.player.remoteReply(requestId, { id });
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_TRACK_ADD", (args) => {
+      const [requestId, playlistId, { title, url }] = args;
+      if (getPlaylist(requestId, playlistId)) {
+        const track: Track = { id: uuid(), title, url };
+        dispatch(addTrack({ track, playlistId }));
+        dispatch(addTrackToQueueIfNeeded({ playlistId, trackId: track.id }));
+        window.player.remoteReply(requestId, track);
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_TRACK_EDIT", (args) => {
+      const [requestId, playlistId, trackId, changes] = args;
+      const playlist = getPlaylist(requestId, playlistId);
+      if (playlist && getTrack(requestId, playlist, trackId)) {
+        dispatch(editTrack({ ...changes, id: trackId }));
+        window.player.remoteReply(
+          requestId,
+          store.getState().playlists.tracks[trackId]
+        );
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_TRACK_REMOVE", (args) => {
+      const [requestId, playlistId, trackId] = args;
+      const playlist = getPlaylist(requestId, playlistId);
+      if (playlist && getTrack(requestId, playlist, trackId)) {
+        // Stop playback if the track being removed is playing
+        if (store.getState().playlistPlayback.track?.id === trackId) {
+          dispatch(playPause(false));
+          dispatch(stopTrack());
+        }
+        dispatch(removeTrack({ trackId, playlistId }));
+        dispatch(removeTrackFromQueue({ trackId, playlistId }));
+        window.player.remoteReply(requestId, { id: trackId });
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_TRACK_MOVE", (args) => {
+      const [requestId, playlistId, trackId, over] = args;
+      const playlist = getPlaylist(requestId, playlistId);
+      if (
+        playlist &&
+        getTrack(requestId, playlist, trackId) &&
+        getTrack(requestId, playlist, over)
+      ) {
+        dispatch(moveTrack({ playlistId, active: trackId, over }));
+        dispatch(moveQueueIfNeeded({ playlistId, active: trackId, over }));
+        window.player.remoteReply(
+          requestId,
+          store.getState().playlists.playlists.byId[playlistId]
+        );
+      }
+    });
+
+    return () => {
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_ADD");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_EDIT");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_REMOVE");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_MOVE");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_TRACK_ADD");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_TRACK_EDIT");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_TRACK_REMOVE");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_TRACK_MOVE");
+    };
+  }, [store, dispatch]);
+
+  return <></>;
+}
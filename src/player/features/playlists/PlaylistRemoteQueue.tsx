@@ -0,0 +1,135 @@
+import React, { useEffect } from "react";
+
+import { useDispatch, useStore } from "react-redux";
+import { RootState } from "../../app/store";
+import { Track } from "./playlistsSlice";
+import {
+  Queue,
+  queueTrack,
+  removeTrackFromQueue,
+  updateQueue,
+} from "./playlistPlaybackSlice";
+import { PlaylistQueueReply } from "../../../types/player";
+
+type PlaylistRemoteQueueProps = {
+  onPlay: (track: Track) => void;
+};
+
+function notFound(requestId: string, message: string) {
+  window.player.remoteReplyError(requestId, {
+    statusCode: 404,
+    error: "Not Found",
+    message,
+  });
+}
+
+// Handle remote requests that view or edit the playback queue
+export function PlaylistRemoteQueue({ onPlay }: PlaylistRemoteQueueProps) {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    function getQueueReply(): PlaylistQueueReply {
+      const { playlists, playlistPlayback } = store.getState();
+      const queue = playlistPlayback.queue;
+      if (!queue) {
+        return { tracks: [] };
+      }
+      const order = playlistPlayback.shuffle
+        ? queue.shuffled.map((index) => queue.tracks[index])
+        : queue.tracks;
+      return {
+        current: queue.current,
+        tracks: order.map((id) => playlists.tracks[id]),
+        playlist: {
+          id: queue.playlistId,
+          title: playlists.playlists.byId[queue.playlistId]?.title,
+        },
+      };
+    }
+
+    function getQueue(requestId: string): Queue | undefined {
+      const queue = store.getState().playlistPlayback.queue;
+      if (!queue) {
+        notFound(requestId, "No playlist is playing");
+      }
+      return queue;
+    }
+
+    // Only tracks in the playing playlist can be queued
+    function getTrack(requestId: string, queue: Queue, trackId: string) {
+      const playlist =
+        store.getState().playlists.playlists.byId[queue.playlistId];
+      if (!playlist?.tracks.includes(trackId)) {
+        notFound(
+          requestId,
+          `Unable to find track with id: ${trackId} in the playing playlist`
+        );
+        return undefined;
+      }
+      return store.getState().playlists.tracks[trackId];
+    }
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_QUEUE_REQUEST", (args) => {
+      const requestId = args[0];
+      window.player.remoteReply(requestId, getQueueReply());
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_QUEUE_ADD", (args) => {
+      const [requestId, trackId, next] = args;
+      const queue = getQueue(requestId);
+      if (queue && getTrack(requestId, queue, trackId)) {
+        if (store.getState().playlistPlayback.track?.id === trackId) {
+          window.player.remoteReplyError(requestId, {
+            statusCode: 409,
+            error: "Conflict",
+            message: "Unable to queue the track that is playing",
+          });
+          return;
+        }
+        dispatch(queueTrack({ trackId, next }));
+        window.player.remoteReply(requestId, getQueueReply());
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_QUEUE_REMOVE", (args) => {
+      const [requestId, trackId] = args;
+      const queue = getQueue(requestId);
+      if (queue) {
+        if (!queue.tracks.includes(trackId)) {
+          notFound(requestId, `Unable to find track with id: ${trackId}`);
+          return;
+        }
+        dispatch(
+          removeTrackFromQueue({ playlistId: queue.playlistId, trackId })
+        );
+        window.player.remoteReply(requestId, getQueueReply());
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_PLAYLIST_QUEUE_JUMP", (args) => {
+      const [requestId, index] = args;
+      const queue = getQueue(requestId);
+      if (queue) {
+        const { tracks } = getQueueReply();
+        const track = tracks[index];
+        if (!track) {
+          notFound(requestId, `No track at queue index: ${index}`);
+          return;
+        }
+        onPlay(track);
+        dispatch(updateQueue(index));
+        window.player.remoteReply(requestId, getQueueReply());
+      }
+    });
+
+    return () => {
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_QUEUE_REQUEST");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_QUEUE_ADD");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_QUEUE_REMOVE");
+      window.player.removeAllListeners("PLAYER_REMOTE_PLAYLIST_QUEUE_JUMP");
+    };
+  }, [store, dispatch, onPlay]);
+
+  return <></>;
+}
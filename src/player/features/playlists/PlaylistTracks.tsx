@@ -105,7 +105,7 @@ export function PlaylistTracks({
           minWidth: 360,
           maxWidth: 720,
           margin: "0 auto",
-          marginBottom: "240px",
+          marginBottom: "280px",
         }}
       >
         <DndContext
@@ -145,7 +145,7 @@ export function Playlists({ onPlay }: PlaylistsProps) {
           columns={{ xs: 4, sm: 9, md: 12 }}
           sx={{
             px: 2,
-            pb: "248px",
+            pb: "288px",
             overflowY: "auto",
             maskImage:
               "linear-gradient(to bottom, transparent, black 16px, black calc(100% - 16px), transparent)",
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import reducer, {
+  addTrackToQueueIfNeeded,
+  PlaylistPlaybackState,
+  queueTrack,
+  removeTrackFromQueue,
+} from "./playlistPlaybackSlice";
+
+function getState(shuffle: boolean, current: number): PlaylistPlaybackState {
+  return {
+    playing: true,
+    volume: 1,
+    muted: false,
+    shuffle,
+    repeat: "playlist",
+    queue: {
+      playlistId: "playlist",
+      tracks: ["a", "b", "c", "d"],
+      shuffled: [2, 0, 3, 1],
+      current,
+    },
+  };
+}
+
+/** Get the track ids in playback order and the current track */
+function getOrder(state: PlaylistPlaybackState) {
+  const queue = state.queue;
+  const order = state.shuffle
+    ? queue.shuffled.map((index) => queue.tracks[index])
+    : queue.tracks;
+  return { order, current: order[queue.current] };
+}
+
+function remove(trackId: string) {
+  return removeTrackFromQueue({ playlistId: "playlist", trackId });
+}
+
+describe("removeTrackFromQueue", () => {
+  it("keeps the current track when another track is removed", () => {
+    const state = reducer(getState(false, 1), remove("a"));
+    expect(getOrder(state)).toEqual({ order: ["b", "c", "d"], current: "b" });
+  });
+
+  it("keeps the current track when shuffled", () => {
+    // Playing "a" which is second in the shuffled order c, a, d, b
+    const state = reducer(getState(true, 1), remove("c"));
+    expect(getOrder(state)).toEqual({ order: ["a", "d", "b"], current: "a" });
+    expect(state.queue?.tracks).toEqual(["a", "b", "d"]);
+  });
+
+  it("moves to the next track when the current track is removed", () => {
+    const unshuffled = reducer(getState(false, 1), remove("b"));
+    expect(getOrder(unshuffled).current).toBe("c");
+    const shuffled = reducer(getState(true, 1), remove("a"));
+    expect(getOrder(shuffled).current).toBe("d");
+  });
+
+  it("stays in the queue when the last track is removed", () => {
+    const unshuffled = reducer(getState(false, 3), remove("d"));
+    expect(unshuffled.queue?.current).toBe(2);
+    expect(getOrder(unshuffled).current).toBe("c");
+    const shuffled = reducer(getState(true, 3), remove("b"));
+    expect(shuffled.queue?.current).toBe(2);
+    expect(getOrder(shuffled).current).toBe("d");
+  });
+
+  it("ignores other playlists", () => {
+    const state = getState(false, 1);
+    expect(
+      reducer(state, removeTrackFromQueue({ playlistId: "other", trackId: "a" }))
+    ).toEqual(state);
+  });
+});
+
+describe("addTrackToQueueIfNeeded", () => {
+  it("adds the track to the start of the queue", () => {
+    const action = addTrackToQueueIfNeeded({
+      playlistId: "playlist",
+      trackId: "e",
+    });
+    const unshuffled = reducer(getState(false, 1), action);
+    expect(getOrder(unshuffled)).toEqual({
+      order: ["e", "a", "b", "c", "d"],
+      current: "b",
+    });
+    const shuffled = reducer(getState(true, 1), action);
+    expect(getOrder(shuffled)).toEqual({
+      order: ["e", "c", "a", "d", "b"],
+      current: "a",
+    });
+  });
+});
+
+describe("queueTrack", () => {
+  it("plays the track next", () => {
+    const action = queueTrack({ trackId: "d", next: true });
+    const unshuffled = reducer(getState(false, 0), action);
+    expect(getOrder(unshuffled)).toEqual({
+      order: ["a", "d", "b", "c"],
+      current: "a",
+    });
+    const shuffled = reducer(getState(true, 0), action);
+    expect(getOrder(shuffled)).toEqual({
+      order: ["c", "d", "a", "b"],
+      current: "c",
+    });
+  });
+
+  it("plays the track after every other track", () => {
+    const action = queueTrack({ trackId: "a", next: false });
+    const unshuffled = reducer(getState(false, 1), action);
+    expect(getOrder(unshuffled)).toEqual({
+      order: ["b", "c", "d", "a"],
+      current: "b",
+    });
+    const shuffled = reducer(getState(true, 2), action);
+    expect(getOrder(shuffled)).toEqual({
+      order: ["c", "d", "b", "a"],
+      current: "d",
+    });
+  });
+});
@@ -29,6 +29,50 @@ export interface PlaylistPlaybackState {
   playback?: Playback;
 }
 
+/**
+ * Remove a track from the queue keeping current on the same track
+ * The current track itself can't be removed
+ */
+function removeFromQueue(queue: Queue, shuffle: boolean, trackId: string) {
+  const trackIndex = queue.tracks.indexOf(trackId);
+  if (trackIndex === -1) {
+    return;
+  }
+  const shuffledIndex = queue.shuffled.indexOf(trackIndex);
+  queue.tracks.splice(trackIndex, 1);
+  queue.shuffled.splice(shuffledIndex, 1);
+  // Shift the shuffled indices after the removed track down by one
+  queue.shuffled = queue.shuffled.map((index) =>
+    index > trackIndex ? index - 1 : index,
+  );
+  // Current is an index into the shuffled array when shuffling
+  const removedIndex = shuffle ? shuffledIndex : trackIndex;
+  if (removedIndex < queue.current) {
+    queue.current -= 1;
+  }
+}
+
+/** Insert a track at an index in both the tracks and shuffled arrays */
+function insertIntoQueue(
+  queue: Queue,
+  shuffle: boolean,
+  trackId: string,
+  trackIndex: number,
+  shuffledIndex: number,
+) {
+  queue.tracks.splice(trackIndex, 0, trackId);
+  // Shift the shuffled indices after the new track up by one
+  queue.shuffled = queue.shuffled.map((index) =>
+    index >= trackIndex ? index + 1 : index,
+  );
+  queue.shuffled.splice(shuffledIndex, 0, trackIndex);
+  // Bump current to make room
+  const insertedIndex = shuffle ? shuffledIndex : trackIndex;
+  if (insertedIndex <= queue.current) {
+    queue.current += 1;
+  }
+}
+
 const initialState: PlaylistPlaybackState = {
   playing: false,
   volume: 1,
@@ -106,8 +150,10 @@ export const playlistPlaybackSlice = createSlice({
           shuffleListWithTracks.push(track);
         }
 
-        const currentTrack = shuffleListWithTracks[state.queue.current];
-        const cacheQueue = [...state.queue.tracks];
+        // current is an index into the shuffled list only when shuffling
+        const currentTrack = state.shuffle
+          ? shuffleListWithTracks[state.queue.current]
+          : state.queue.tracks[state.queue.current];
 
         // remove the track from the shuffleListWithTracks and the queue tracks
         shuffleListWithTracks = shuffleListWithTracks.filter(
@@ -123,18 +169,23 @@ export const playlistPlaybackSlice = createSlice({
           newShuffleOrder.push(state.queue.tracks.indexOf(track));
         }
 
-        // get the index of the current track in the new shuffle queue
-        let newCurrentValue = shuffleListWithTracks.indexOf(currentTrack);
+        // get the index of the current track in the new queue order
+        const order = state.shuffle
+          ? shuffleListWithTracks
+          : state.queue.tracks;
+        let newCurrentValue = order.indexOf(currentTrack);
         if (newCurrentValue === -1) {
-          // if the value was deleted then determine the next item
-          const value = state.queue.shuffled[state.queue.current + 1];
-          const nextTrack = cacheQueue[value];
-          newCurrentValue = shuffleListWithTracks.indexOf(nextTrack);
+          // if the value was deleted then the next item takes its place
+          // or the new last item when the last item was deleted
+          newCurrentValue = Math.max(
+            Math.min(state.queue.current, order.length - 1),
+            0,
+          );
         }
 
         // set the new shuffle queue order
         state.queue.shuffled = newShuffleOrder;
-        // set the index of current value according to the new shuffle order
+        // set the index of current value according to the new queue order
         state.queue.current = newCurrentValue;
       }
     },
@@ -153,6 +204,39 @@ export const playlistPlaybackSlice = createSlice({
         state.queue.current += 1;
       }
     },
+    /**
+     * Move a track in the queue so it plays next or after every other track
+     * If the track was removed from the queue it is added back
+     */
+    queueTrack: (
+      state,
+      action: PayloadAction<{ trackId: string; next: boolean }>,
+    ) => {
+      const queue = state.queue;
+      if (queue) {
+        removeFromQueue(queue, state.shuffle, action.payload.trackId);
+        const position = action.payload.next
+          ? queue.current + 1
+          : queue.tracks.length;
+        if (state.shuffle) {
+          insertIntoQueue(
+            queue,
+            state.shuffle,
+            action.payload.trackId,
+            queue.tracks.length,
+            position,
+          );
+        } else {
+          insertIntoQueue(
+            queue,
+            state.shuffle,
+            action.payload.trackId,
+            position,
+            queue.shuffled.length,
+          );
+        }
+      }
+    },
     addTracksToQueueIfNeeded: (
       state,
       action: PayloadAction<{ playlistId: string; trackIds: string[] }>,
@@ -232,6 +316,7 @@ export const {
   removeTrackFromQueue,
   addTrackToQueueIfNeeded,
   addTracksToQueueIfNeeded,
+  queueTrack,
   playTrack,
   stopTrack,
   playPause,
@@ -107,11 +107,27 @@ export function usePlaylistPlayback(onError: (message: string) => void) {
     trackRef.current?.seek(to);
   }, []);
 
-  const stop = useCallback(() => {
-    dispatch(playPause(false));
-    dispatch(updatePlayback(0));
-    trackRef.current?.stop();
-  }, []);
+  const stop = useCallback(
+    (fade = 0) => {
+      const track = trackRef.current;
+      function stopPlayback() {
+        dispatch(playPause(false));
+        dispatch(updatePlayback(0));
+        track?.stop();
+      }
+      if (track && fade > 0 && track.playing()) {
+        // Restore the volume after fading out so resuming isn't silent
+        track.once("fade", () => {
+          stopPlayback();
+          track.volume(store.getState().playlistPlayback.volume);
+        });
+        track.fade(track.volume(), 0, fade);
+      } else {
+        stopPlayback();
+      }
+    },
+    [store]
+  );
 
   const next = useCallback(() => {
     if (!trackRef.current) {
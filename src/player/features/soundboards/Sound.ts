@@ -98,7 +98,14 @@ export class Sound extends TypedEmitter<SoundEvents> {
     }
   }
 
-  async stop(fadeOut: boolean): Promise<void> {
+  /**
+   * @param fadeOut Fade out before stopping
+   * @param duration Fade out duration, defaults to the `fadeOut` option
+   */
+  async stop(
+    fadeOut: boolean,
+    duration = this.options.fadeOut
+  ): Promise<void> {
     return new Promise((resolve) => {
       clearTimeout(this._timeout);
       if (fadeOut) {
@@ -106,7 +113,7 @@ export class Sound extends TypedEmitter<SoundEvents> {
           this._howl.unload();
           resolve();
         });
-        this._howl.fade(this._howl.volume(), 0, this.options.fadeOut);
+        this._howl.fade(this._howl.volume(), 0, duration);
       } else {
         this._howl.unload();
         resolve();
@@ -0,0 +1,41 @@
+import React, { useEffect, useRef } from "react";
+
+import { useSelector } from "react-redux";
+import { RootState } from "../../app/store";
+import { SoundPlayback } from "./soundboardPlaybackSlice";
+
+// Push soundboard playback changes to the remote event stream
+// This is done in a empty component to avoid re-rendering any children
+export function SoundboardPlaybackEvents() {
+  const playback = useSelector(
+    (state: RootState) => state.soundboardPlayback.playback
+  );
+  const prevPlaybackRef = useRef<Record<string, SoundPlayback>>({});
+
+  useEffect(() => {
+    const prevPlayback = prevPlaybackRef.current;
+    const progress: { id: string; progress: number }[] = [];
+    for (const [id, sound] of Object.entries(playback)) {
+      const prev = prevPlayback[id];
+      if (!prev) {
+        window.player.remoteEvent({ type: "soundboard-play", sound });
+      } else if (prev.progress !== sound.progress) {
+        progress.push({ id, progress: sound.progress });
+      }
+    }
+    for (const id of Object.keys(prevPlayback)) {
+      if (!(id in playback)) {
+        window.player.remoteEvent({ type: "soundboard-stop", id });
+      }
+    }
+    if (progress.length > 0) {
+      window.player.remoteEvent({
+        type: "soundboard-progress",
+        sounds: progress,
+      });
+    }
+    prevPlaybackRef.current = playback;
+  }, [playback]);
+
+  return <></>;
+}
@@ -1,8 +1,9 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useRef } from "react";
 
-import { useSelector } from "react-redux";
+import { useDispatch, useSelector } from "react-redux";
 import { RootState } from "../../app/store";
 import { Sound } from "./Sound";
+import { editPlayback } from "./soundboardPlaybackSlice";
 
 type SoundboardPlaybackSyncProps = {
   onSync: (update: (id: string, sound: Sound) => void) => void;
@@ -15,16 +16,25 @@ export function SoundboardPlaybackSync({
   onSync,
 }: SoundboardPlaybackSyncProps) {
   const soundboards = useSelector((state: RootState) => state.soundboards);
+  const dispatch = useDispatch();
+  const prevSoundsRef = useRef(soundboards.sounds);
 
   useEffect(() => {
+    const prevSounds = prevSoundsRef.current;
+    prevSoundsRef.current = soundboards.sounds;
     onSync((id, sound) => {
       const state = soundboards.sounds[id];
-      if (state) {
-        if (state.volume !== sound.options.volume) {
+      const prev = prevSounds[id];
+      // Only apply changes made to the soundboard so overrides made
+      // to a single playing sound aren't lost
+      if (state && prev) {
+        if (state.volume !== prev.volume) {
           sound.volume(state.volume);
+          dispatch(editPlayback({ id, volume: state.volume }));
         }
-        if (state.loop !== sound.options.loop) {
+        if (state.loop !== prev.loop) {
           sound.loop(state.loop);
+          dispatch(editPlayback({ id, loop: state.loop }));
         }
       }
     });
@@ -4,30 +4,42 @@ import { useSelector } from "react-redux";
 import { RootState } from "../../app/store";
 
 import { Sound } from "./soundboardsSlice";
+import { SoundPlayback } from "./soundboardPlaybackSlice";
 
 type SoundboardRemoteProps = {
   onPlay: (sound: Sound) => void;
   onStop: (id: string) => void;
+  onSeek: (id: string, to: number) => void;
+  onVolume: (id: string, volume: number) => void;
+  onLoop: (id: string, loop: boolean) => void;
 };
 
-export function SoundboardRemote({ onPlay, onStop }: SoundboardRemoteProps) {
+export function SoundboardRemote({
+  onPlay,
+  onStop,
+  onSeek,
+  onVolume,
+  onLoop,
+}: SoundboardRemoteProps) {
   const soundboards = useSelector((state: RootState) => state.soundboards);
   const playback = useSelector((state: RootState) => state.soundboardPlayback);
 
   useEffect(() => {
     window.player.on("PLAYER_REMOTE_SOUNDBOARD_PLAY", (args) => {
       const id = args[0];
+      // Optional one-off overrides for this playback
+      const overrides: Partial<Sound> = args[1] || {};
 
       if (id in soundboards.sounds) {
         const sound = soundboards.sounds[id];
-        onPlay(sound);
+        onPlay({ ...sound, ...overrides });
       } else if (id in soundboards.soundboards.byId) {
         const soundboard = soundboards.soundboards.byId[id];
         const sounds = [...soundboard.sounds];
         const soundId = sounds[Math.floor(Math.random() * sounds.length)];
         const sound = soundboards.sounds[soundId];
         if (sound) {
-          onPlay(sound);
+          onPlay({ ...sound, ...overrides });
         }
       }
     });
@@ -49,9 +61,10 @@ export function SoundboardRemote({ onPlay, onStop }: SoundboardRemoteProps) {
   }, [onPlay, soundboards]);
 
   useEffect(() => {
-    window.player.on("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REQUEST", () => {
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REQUEST", (args) => {
+      const requestId = args[0];
       const sounds = Object.values(playback.playback);
-      window.player.soundboardPlaybackReply({
+      window.player.soundboardPlaybackReply(requestId, {
         sounds,
       });
     });
@@ -64,14 +77,79 @@ export function SoundboardRemote({ onPlay, onStop }: SoundboardRemoteProps) {
   }, [playback]);
 
   useEffect(() => {
-    window.player.on("PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST", () => {
-      window.player.soundboardGetAllReply({
+    // Apply a change to a single playing sound and reply with its playback
+    function changePlayback(
+      requestId: string,
+      id: string,
+      change: (sound: SoundPlayback) => Partial<SoundPlayback>
+    ) {
+      const sound = playback.playback[id];
+      if (sound) {
+        window.player.remoteReply(requestId, { ...sound, ...change(sound) });
+      } else {
+        window.player.remoteReplyError(requestId, {
+          statusCode: 404,
+          error: "Not Found",
+          message: `Unable to find playing sound with id: ${id}`,
+        });
+      }
+    }
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_VOLUME", (args) => {
+      const [requestId, id, volume] = args;
+      changePlayback(requestId, id, () => {
+        onVolume(id, volume);
+        return { volume };
+      });
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_SEEK", (args) => {
+      const [requestId, id, to] = args;
+      changePlayback(requestId, id, (sound) => {
+        // Stay within the sound as the route only checks the start
+        const progress = Math.min(to, sound.duration);
+        onSeek(id, progress);
+        return { progress };
+      });
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_LOOP", (args) => {
+      const [requestId, id, loop] = args;
+      changePlayback(requestId, id, () => {
+        onLoop(id, loop);
+        return { loop };
+      });
+    });
+
+    return () => {
+      window.player.removeAllListeners(
+        "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_VOLUME"
+      );
+      window.player.removeAllListeners(
+        "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_SEEK"
+      );
+      window.player.removeAllListeners(
+        "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_LOOP"
+      );
+    };
+  }, [playback, onSeek, onVolume, onLoop]);
+
+  useEffect(() => {
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST", (args) => {
+      const requestId = args[0];
+      window.player.soundboardGetAllReply(requestId, {
         soundboards: soundboards.soundboards.allIds.map(
           (id) => soundboards.soundboards.byId[id]
         ),
         sounds: Object.values(soundboards.sounds),
       });
     });
+
+    return () => {
+      window.player.removeAllListeners(
+        "PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST"
+      );
+    };
   }, [soundboards]);
 
   return <></>;
@@ -0,0 +1,202 @@
+import React, { useEffect } from "react";
+
+import { v4 as uuid } from "uuid";
+
+import { useDispatch, useStore } from "react-redux";
+import { RootState } from "../../app/store";
+import {
+  addSoundboard,
+  addSounds,
+  editSound,
+  editSoundboard,
+  moveSound,
+  moveSoundboard,
+  removeSound,
+  removeSoundboard,
+  Sound,
+  Soundboard,
+} from "./soundboardsSlice";
+import { getRandomBackground, isValidBackground } from "../../backgrounds";
+
+type SoundboardRemoteEditProps = {
+  onStop: (id: string) => void;
+};
+
+function notFound(requestId: string, message: string) {
+  window.player.remoteReplyError(requestId, {
+    statusCode: 404,
+    error: "Not Found",
+    message,
+  });
+}
+
+/** Reply with an error if a background isn't built-in or an image url */
+function checkBackground(requestId: string, background?: string) {
+  if (background && !isValidBackground(background)) {
+    window.player.remoteReplyError(requestId, {
+      statusCode: 400,
+      error: "Bad Request",
+      message: `Unknown background: ${background}`,
+    });
+    return false;
+  }
+  return true;
+}
+
+// Handle remote requests that edit the soundboard library
+export function SoundboardRemoteEdit({ onStop }: SoundboardRemoteEditProps) {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    function getSoundboard(
+      requestId: string,
+      id: string
+    ): Soundboard | undefined {
+      const soundboard = store.getState().soundboards.soundboards.byId[id];
+      if (!soundboard) {
+        notFound(requestId, `Unable to find soundboard with id: ${id}`);
+      }
+      return soundboard;
+    }
+
+    function getSound(
+      requestId: string,
+      soundboard: Soundboard,
+      soundId: string
+    ): Sound | undefined {
+      const sound = store.getState().soundboards.sounds[soundId];
+      if (!sound || !soundboard.sounds.includes(soundId)) {
+        notFound(requestId, `Unable to find sound with id: ${soundId}`);
+        return undefined;
+      }
+      return sound;
+    }
+
+    // Stop a sound if it is currently playing
+    function stopIfPlaying(soundId: string) {
+      if (soundId in store.getState().soundboardPlayback.playback) {
+        onStop(soundId);
+      }
+    }
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_ADD", (args) => {
+      const [requestId, { title, background }] = args;
+      if (!checkBackground(requestId, background)) {
+        return;
+      }
+      const soundboard: Soundboard = {
+        id: uuid(),
+        title,
+        background: background || getRandomBackground(),
+        sounds: [],
+      };
+      dispatch(addSoundboard(soundboard));
+      window.player.remoteReply(requestId, soundboard);
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_EDIT", (args) => {
+      const [requestId, id, changes] = args;
+      if (
+        checkBackground(requestId, changes.background) &&
+        getSoundboard(requestId, id)
+      ) {
+        dispatch(editSoundboard({ ...changes, id }));
+        window.player.remoteReply(
+          requestId,
+          store.getState().soundboards.soundboards.byId[id]
+        );
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_REMOVE", (args) => {
+      const [requestId, id] = args;
+      const soundboard = getSoundboard(requestId, id);
+      if (soundboard) {
+        soundboard.sounds.forEach(stopIfPlaying);
+        dispatch(removeSoundboard(id));
+        window.player.remoteReply(requestId, { id });
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_MOVE", (args) => {
+      const [requestId, id, over] = args;
+      if (getSoundboard(requestId, id) && getSoundboard(requestId, over)) {
+        dispatch(moveSoundboard({ active: id, over }));
+        window.player.remoteReply(requestId, { id });
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_SOUNDS_ADD", (args) => {
+      const [requestId, soundboardId, requests] = args;
+      if (getSoundboard(requestId, soundboardId)) {
+        const sounds: Sound[] = requests.map(
+          ({ title, url, loop, volume, fadeIn, fadeOut }: Partial<Sound>) => ({
+            id: uuid(),
+            title,
+            url,
+            loop: loop ?? false,
+            volume: volume ?? 1,
+            fadeIn: fadeIn ?? 100,
+            fadeOut: fadeOut ?? 100,
+          })
+        );
+        dispatch(addSounds({ sounds, soundboardId }));
+        window.player.remoteReply(requestId, sounds);
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_SOUND_EDIT", (args) => {
+      const [requestId, soundboardId, soundId, changes] = args;
+      const soundboard = getSoundboard(requestId, soundboardId);
+      if (soundboard && getSound(requestId, soundboard, soundId)) {
+        dispatch(editSound({ ...changes, id: soundId }));
+        window.player.remoteReply(
+          requestId,
+          store.getState().soundboards.sounds[soundId]
+        );
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_SOUND_REMOVE", (args) => {
+      const [requestId, soundboardId, soundId] = args;
+      const soundboard = getSoundboard(requestId, soundboardId);
+      if (soundboard && getSound(requestId, soundboard, soundId)) {
+        stopIfPlaying(soundId);
+        dispatch(removeSound({ soundId, soundboardId }));
+        window.player.remoteReply(requestId, { id: soundId });
+      }
+    });
+
+    window.player.on("PLAYER_REMOTE_SOUNDBOARD_SOUND_MOVE", (args) => {
+      const [requestId, soundboardId, soundId, over] = args;
+      const soundboard = getSoundboard(requestId, soundboardId);
+      if (
+        soundboard &&
+        getSound(requestId, soundboard, soundId) &&
+        getSound(requestId, soundboard, over)
+      ) {
+        dispatch(moveSound({ soundboardId, active: soundId, over }));
+        window.player.remoteReply(
+          requestId,
+          store.getState().soundboards.soundboards.byId[soundboardId]
+        );
+      }
+    });
+
+    return () => {
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_ADD");
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_EDIT");
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_REMOVE");
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_MOVE");
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_SOUNDS_ADD");
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_SOUND_EDIT");
+      window.player.removeAllListeners(
+        "PLAYER_REMOTE_SOUNDBOARD_SOUND_REMOVE"
+      );
+      window.player.removeAllListeners("PLAYER_REMOTE_SOUNDBOARD_SOUND_MOVE");
+    };
+  }, [store, dispatch, onStop]);
+
+  return <></>;
+}
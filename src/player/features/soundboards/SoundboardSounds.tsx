@@ -96,7 +96,7 @@ export function SoundboardSounds({
         sx={{
           width: "100%",
           margin: "0 auto",
-          marginBottom: "240px",
+          marginBottom: "280px",
         }}
         container
         spacing={2}
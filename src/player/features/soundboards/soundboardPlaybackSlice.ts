@@ -28,6 +28,17 @@ export const soundboardPlaybackSlice = createSlice({
     stopSound: (state, action: PayloadAction<string>) => {
       delete state.playback[action.payload];
     },
+    editPlayback: (state, action: PayloadAction<Partial<SoundPlayback>>) => {
+      if (!action.payload.id) {
+        throw Error("Id needed in editPlayback payload");
+      }
+      if (action.payload.id in state.playback) {
+        state.playback[action.payload.id] = {
+          ...state.playback[action.payload.id],
+          ...action.payload,
+        };
+      }
+    },
     updatePlayback: (
       state,
       action: PayloadAction<{ id: string; progress: number }[]>
@@ -42,7 +53,7 @@ export const soundboardPlaybackSlice = createSlice({
   },
 });
 
-export const { playSound, stopSound, updatePlayback } =
+export const { playSound, stopSound, editPlayback, updatePlayback } =
   soundboardPlaybackSlice.actions;
 
 export default soundboardPlaybackSlice.reducer;
@@ -5,6 +5,7 @@ import {
   playSound,
   updatePlayback,
   stopSound,
+  editPlayback,
 } from "./soundboardPlaybackSlice";
 import { Sound as SoundType } from "./soundboardsSlice";
 import { Sound } from "./Sound";
@@ -86,6 +87,18 @@ export function useSoundboardPlayback(onError: (message: string) => void) {
     soundsRef.current[id]?.seek(to);
   }, []);
 
+  // Change the volume of a single playing sound without editing the soundboard
+  const volume = useCallback((id: string, volume: number) => {
+    dispatch(editPlayback({ id, volume }));
+    soundsRef.current[id]?.volume(volume);
+  }, []);
+
+  // Change the loop of a single playing sound without editing the soundboard
+  const loop = useCallback((id: string, loop: boolean) => {
+    dispatch(editPlayback({ id, loop }));
+    soundsRef.current[id]?.loop(loop);
+  }, []);
+
   const stop = useCallback(async (id: string) => {
     dispatch(stopSound(id));
     const loop = soundsRef.current[id];
@@ -95,6 +108,17 @@ export function useSoundboardPlayback(onError: (message: string) => void) {
     }
   }, []);
 
+  // Stop every playing sound fading out over `fade` milliseconds
+  const stopAll = useCallback(async (fade: number) => {
+    await Promise.all(
+      Object.entries(soundsRef.current).map(async ([id, sound]) => {
+        dispatch(stopSound(id));
+        await sound.stop(fade > 0, fade);
+        delete soundsRef.current[id];
+      })
+    );
+  }, []);
+
   // Sync function for updating the currently playing sounds with the redux store
   // Used in `SoundboardPlaybackSync`
   const sync = useCallback((update: (id: string, sound: Sound) => void) => {
@@ -107,6 +131,9 @@ export function useSoundboardPlayback(onError: (message: string) => void) {
     seek,
     play,
     stop,
+    stopAll,
+    volume,
+    loop,
     sync,
   };
 }
@@ -2,6 +2,8 @@ import { contextBridge, ipcRenderer, webUtils } from "electron";
 import {
   PlaylistPlaybackReply,
   PlaylistsReply,
+  RemoteEvent,
+  ReplyError,
   ResolvedTrackSource,
   SoundboardPlaybackReply,
   SoundboardsReply,
@@ -20,10 +22,36 @@ type Channel =
   | "PLAYER_REMOTE_PLAYLIST_PLAYBACK_PREVIOUS"
   | "PLAYER_REMOTE_PLAYLIST_PLAYBACK_REPEAT"
   | "PLAYER_REMOTE_PLAYLIST_PLAYBACK_SHUFFLE"
+  | "PLAYER_REMOTE_PLAYLIST_ADD"
+  | "PLAYER_REMOTE_PLAYLIST_EDIT"
+  | "PLAYER_REMOTE_PLAYLIST_REMOVE"
+  | "PLAYER_REMOTE_PLAYLIST_MOVE"
+  | "PLAYER_REMOTE_PLAYLIST_TRACK_ADD"
+  | "PLAYER_REMOTE_PLAYLIST_TRACK_EDIT"
+  | "PLAYER_REMOTE_PLAYLIST_TRACK_REMOVE"
+  | "PLAYER_REMOTE_PLAYLIST_TRACK_MOVE"
+  | "PLAYER_REMOTE_PLAYLIST_QUEUE_REQUEST"
+  | "PLAYER_REMOTE_PLAYLIST_QUEUE_ADD"
+  | "PLAYER_REMOTE_PLAYLIST_QUEUE_REMOVE"
+  | "PLAYER_REMOTE_PLAYLIST_QUEUE_JUMP"
   | "PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST"
   | "PLAYER_REMOTE_SOUNDBOARD_PLAY"
   | "PLAYER_REMOTE_SOUNDBOARD_STOP"
   | "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REQUEST"
+  | "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_VOLUME"
+  | "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_SEEK"
+  | "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_LOOP"
+  | "PLAYER_REMOTE_SOUNDBOARD_ADD"
+  | "PLAYER_REMOTE_SOUNDBOARD_EDIT"
+  | "PLAYER_REMOTE_SOUNDBOARD_REMOVE"
+  | "PLAYER_REMOTE_SOUNDBOARD_MOVE"
+  | "PLAYER_REMOTE_SOUNDBOARD_SOUNDS_ADD"
+  | "PLAYER_REMOTE_SOUNDBOARD_SOUND_EDIT"
+  | "PLAYER_REMOTE_SOUNDBOARD_SOUND_REMOVE"
+  | "PLAYER_REMOTE_SOUNDBOARD_SOUND_MOVE"
+  | "PLAYER_REMOTE_MASTER_VOLUME"
+  | "PLAYER_REMOTE_STOP_ALL"
+  | "PLAYER_REMOTE_IMAGE_RENDER"
   | "PLAYER_RESOLVE_TRACK_SOURCE_PROGRESS";
 
 const validChannels: Channel[] = [
@@ -39,10 +67,36 @@ const validChannels: Channel[] = [
   "PLAYER_REMOTE_PLAYLIST_PLAYBACK_PREVIOUS",
   "PLAYER_REMOTE_PLAYLIST_PLAYBACK_REPEAT",
   "PLAYER_REMOTE_PLAYLIST_PLAYBACK_SHUFFLE",
+  "PLAYER_REMOTE_PLAYLIST_ADD",
+  "PLAYER_REMOTE_PLAYLIST_EDIT",
+  "PLAYER_REMOTE_PLAYLIST_REMOVE",
+  "PLAYER_REMOTE_PLAYLIST_MOVE",
+  "PLAYER_REMOTE_PLAYLIST_TRACK_ADD",
+  "PLAYER_REMOTE_PLAYLIST_TRACK_EDIT",
+  "PLAYER_REMOTE_PLAYLIST_TRACK_REMOVE",
+  "PLAYER_REMOTE_PLAYLIST_TRACK_MOVE",
+  "PLAYER_REMOTE_PLAYLIST_QUEUE_REQUEST",
+  "PLAYER_REMOTE_PLAYLIST_QUEUE_ADD",
+  "PLAYER_REMOTE_PLAYLIST_QUEUE_REMOVE",
+  "PLAYER_REMOTE_PLAYLIST_QUEUE_JUMP",
   "PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REQUEST",
   "PLAYER_REMOTE_SOUNDBOARD_PLAY",
   "PLAYER_REMOTE_SOUNDBOARD_STOP",
   "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REQUEST",
+  "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_VOLUME",
+  "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_SEEK",
+  "PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_LOOP",
+  "PLAYER_REMOTE_SOUNDBOARD_ADD",
+  "PLAYER_REMOTE_SOUNDBOARD_EDIT",
+  "PLAYER_REMOTE_SOUNDBOARD_REMOVE",
+  "PLAYER_REMOTE_SOUNDBOARD_MOVE",
+  "PLAYER_REMOTE_SOUNDBOARD_SOUNDS_ADD",
+  "PLAYER_REMOTE_SOUNDBOARD_SOUND_EDIT",
+  "PLAYER_REMOTE_SOUNDBOARD_SOUND_REMOVE",
+  "PLAYER_REMOTE_SOUNDBOARD_SOUND_MOVE",
+  "PLAYER_REMOTE_MASTER_VOLUME",
+  "PLAYER_REMOTE_STOP_ALL",
+  "PLAYER_REMOTE_IMAGE_RENDER",
   "PLAYER_RESOLVE_TRACK_SOURCE_PROGRESS",
 ];
 
@@ -58,17 +112,38 @@ const api = {
       ipcRenderer.removeAllListeners(channel);
     }
   },
-  playlistPlaybackReply: (playback: PlaylistPlaybackReply) => {
-    ipcRenderer.send("PLAYER_REMOTE_PLAYLIST_PLAYBACK_REPLY", playback);
+  playlistPlaybackReply: (
+    requestId: string,
+    playback: PlaylistPlaybackReply
+  ) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, playback);
   },
-  soundboardPlaybackReply: (playback: SoundboardPlaybackReply) => {
-    ipcRenderer.send("PLAYER_REMOTE_SOUNDBOARD_PLAYBACK_REPLY", playback);
+  soundboardPlaybackReply: (
+    requestId: string,
+    playback: SoundboardPlaybackReply
+  ) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, playback);
   },
-  playlistGetAllReply: (playlists: PlaylistsReply) => {
-    ipcRenderer.send("PLAYER_REMOTE_PLAYLIST_GET_ALL_REPLY", playlists);
+  playlistGetAllReply: (requestId: string, playlists: PlaylistsReply) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, playlists);
   },
-  soundboardGetAllReply: (soundboards: SoundboardsReply) => {
-    ipcRenderer.send("PLAYER_REMOTE_SOUNDBOARD_GET_ALL_REPLY", soundboards);
+  soundboardGetAllReply: (
+    requestId: string,
+    soundboards: SoundboardsReply
+  ) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, soundboards);
+  },
+  remoteReply: (requestId: string, payload: unknown) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, payload);
+  },
+  remoteReplyError: (requestId: string, error: ReplyError) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, undefined, error);
+  },
+  remoteEvent: (event: RemoteEvent) => {
+    ipcRenderer.send("PLAYER_REMOTE_EVENT", event);
+  },
+  setMasterVolume: (volume: number) => {
+    ipcRenderer.send("AUDIO_CAPTURE_SET_VOLUME", volume);
   },
   getPathForFile: (file: File) => {
     return webUtils.getPathForFile(file);
@@ -1,6 +1,8 @@
 import { contextBridge, ipcRenderer } from "electron";
 
 import { BrowserViewManagerPreload } from "./preload/managers/BrowserViewManagerPreload";
+import { RemoteKey, Webhook } from "./types/remote";
+import { ReplyError } from "./types/player";
 
 const viewManager = new BrowserViewManagerPreload();
 
@@ -11,9 +13,11 @@ type Channel =
   | "INFO"
   | "DISCORD_READY"
   | "DISCORD_DISCONNECTED"
+  | "DISCORD_RECONNECTING"
   | "DISCORD_GUILDS"
   | "DISCORD_CHANNEL_JOINED"
   | "DISCORD_CHANNEL_LEFT"
+  | "DISCORD_STAGE_STATUS"
   | "SHOW_CONTROLS"
   | "BROWSER_VIEW_DID_NAVIGATE"
   | "BROWSER_VIEW_TITLE_UPDATED"
@@ -22,7 +26,18 @@ type Channel =
   | "BROWSER_VIEW_MEDIA_PAUSED"
   | "BROWSER_VIEW_NEW_TAB"
   | "BROWSER_VIEW_CLOSE_TAB"
-  | "PLAYER_REMOTE_ENABLED";
+  | "PLAYER_REMOTE_ENABLED"
+  | "PLAYER_OSC_ENABLED"
+  | "REMOTE_OUTPUT_REQUEST"
+  | "REMOTE_OUTPUT_JOIN"
+  | "REMOTE_OUTPUT_LEAVE"
+  | "REMOTE_INPUT_REQUEST"
+  | "REMOTE_INPUT_START"
+  | "REMOTE_INPUT_STOP"
+  | "REMOTE_TABS_REQUEST"
+  | "REMOTE_TABS_OPEN"
+  | "REMOTE_TABS_CLOSE"
+  | "REMOTE_TABS_MUTE";
 
 const validChannels: Channel[] = [
   "ERROR",
@@ -31,9 +46,11 @@ const validChannels: Channel[] = [
   "INFO",
   "DISCORD_READY",
   "DISCORD_DISCONNECTED",
+  "DISCORD_RECONNECTING",
   "DISCORD_GUILDS",
   "DISCORD_CHANNEL_JOINED",
   "DISCORD_CHANNEL_LEFT",
+  "DISCORD_STAGE_STATUS",
   "SHOW_CONTROLS",
   "BROWSER_VIEW_DID_NAVIGATE",
   "BROWSER_VIEW_TITLE_UPDATED",
@@ -43,6 +60,17 @@ const validChannels: Channel[] = [
   "BROWSER_VIEW_NEW_TAB",
   "BROWSER_VIEW_CLOSE_TAB",
   "PLAYER_REMOTE_ENABLED",
+  "PLAYER_OSC_ENABLED",
+  "REMOTE_OUTPUT_REQUEST",
+  "REMOTE_OUTPUT_JOIN",
+  "REMOTE_OUTPUT_LEAVE",
+  "REMOTE_INPUT_REQUEST",
+  "REMOTE_INPUT_START",
+  "REMOTE_INPUT_STOP",
+  "REMOTE_TABS_REQUEST",
+  "REMOTE_TABS_OPEN",
+  "REMOTE_TABS_CLOSE",
+  "REMOTE_TABS_MUTE",
 ];
 
 // Capture audio when new views are loaded
@@ -63,6 +91,12 @@ const api = {
   leaveChannel: (channelId: string) => {
     ipcRenderer.send("DISCORD_LEAVE_CHANNEL", channelId);
   },
+  setDiscordCommands: (enabled: boolean, role: string) => {
+    ipcRenderer.send("DISCORD_SET_COMMANDS", enabled, role);
+  },
+  setDiscordFollowUser: (userId: string) => {
+    ipcRenderer.send("DISCORD_SET_FOLLOW_USER", userId);
+  },
   createBrowserView: async (
     url: string,
     x: number,
@@ -143,6 +177,45 @@ const api = {
   playerStopRemote: () => {
     ipcRenderer.send("PLAYER_STOP_REMOTE");
   },
+  playerSetRemoteAuth: (enabled: boolean, keys: RemoteKey[]) => {
+    ipcRenderer.send("PLAYER_SET_REMOTE_AUTH", enabled, keys);
+  },
+  playerSetWebhooks: (webhooks: Webhook[]) => {
+    ipcRenderer.send("PLAYER_SET_WEBHOOKS", webhooks);
+  },
+  playerGetRemoteURL: (): Promise<string> => {
+    return ipcRenderer.invoke("PLAYER_GET_REMOTE_URL");
+  },
+  playerSetNowPlayingFile: (enabled: boolean) => {
+    ipcRenderer.send("PLAYER_SET_NOW_PLAYING_FILE", enabled);
+  },
+  playerGetNowPlayingPath: (): Promise<string> => {
+    return ipcRenderer.invoke("PLAYER_GET_NOW_PLAYING_PATH");
+  },
+  playerStartOSC: (
+    address: string,
+    port: string,
+    feedbackAddress: string,
+    feedbackPort: string,
+  ) => {
+    ipcRenderer.send(
+      "PLAYER_START_OSC",
+      address,
+      port,
+      feedbackAddress,
+      feedbackPort,
+    );
+  },
+  playerStopOSC: () => {
+    ipcRenderer.send("PLAYER_STOP_OSC");
+  },
+  /** Reply to a request sent by the remote API */
+  remoteReply: (requestId: string, payload: unknown) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, payload);
+  },
+  remoteReplyError: (requestId: string, error: ReplyError) => {
+    ipcRenderer.send("PLAYER_REMOTE_REPLY", requestId, undefined, error);
+  },
   setLoopback: (loopback: boolean) => {
     ipcRenderer.send("AUDIO_CAPTURE_SET_LOOPBACK", loopback);
   },
@@ -36,7 +36,9 @@ export class AudioCaptureManagerPreload {
   /** Audio context to mix media streams into one audio output */
   _audioContext?: AudioContext;
   /** Audio output node that streams will connect to */
-  _audioOutputNode?: AudioNode;
+  _audioOutputNode?: GainNode;
+  /** Master volume applied to the audio output node */
+  _volume = 1;
 
   /** Audio DOM element for the current output / local playback */
   _audioOutputElement?: HTMLAudioElement;
@@ -61,6 +63,7 @@ export class AudioCaptureManagerPreload {
       sampleRate: SAMPLE_RATE,
     });
     this._audioOutputNode = this._audioContext.createGain();
+    this._audioOutputNode.gain.value = this._volume;
 
     await this._setupWebsocket();
     await this._setupLoopback();
@@ -105,6 +108,17 @@ export class AudioCaptureManagerPreload {
     }
   }
 
+  /**
+   * Set the master volume of the combined audio output
+   * @param volume Gain from 0 to 1
+   */
+  setVolume(volume: number): void {
+    this._volume = volume;
+    if (this._audioOutputNode) {
+      this._audioOutputNode.gain.value = volume;
+    }
+  }
+
   /**
    * Toggle the playback of the view audio in the current window
    * @param {boolean} loopback
@@ -8,6 +8,10 @@ import Alert from "@mui/material/Alert";
 import { ActionDrawer } from "../common/ActionDrawer";
 
 import { Tabs } from "../features/tabs/Tabs";
+import { TabsRemote } from "../features/tabs/TabsRemote";
+import { OutputRemote } from "../features/output/OutputRemote";
+import { OutputRestore } from "../features/output/OutputRestore";
+import { InputRemote } from "../features/input/InputRemote";
 
 import icon from "../../assets/icon.svg";
 
@@ -84,6 +88,10 @@ export function App() {
       <WallPaper />
       <ActionDrawer />
       <Tabs />
+      <OutputRemote />
+      <OutputRestore />
+      <InputRemote />
+      <TabsRemote />
       <Snackbar
         open={Boolean(message)}
         autoHideDuration={4000}
@@ -56,11 +56,88 @@ const migrations: any = {
       },
     };
   },
+  // Add remote API keys
+  5: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        remoteAuthEnabled: false,
+        remoteKeys: [],
+      },
+    };
+  },
+  // Add OSC
+  6: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        oscEnabled: false,
+        oscAddress: "127.0.0.1",
+        oscPort: "9000",
+        oscFeedbackAddress: "127.0.0.1",
+        oscFeedbackPort: "9001",
+      },
+    };
+  },
+  // Add webhooks
+  7: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        webhooks: [],
+      },
+    };
+  },
+  // Add now playing file
+  8: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        nowPlayingFileEnabled: false,
+      },
+    };
+  },
+  // Add Discord slash commands
+  9: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        discordCommandsEnabled: false,
+        discordCommandRole: "",
+      },
+    };
+  },
+  // Add restoring Discord channels
+  10: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        discordChannels: [],
+      },
+    };
+  },
+  // Add following a Discord user
+  11: (state: RootState): RootState => {
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        discordFollowEnabled: false,
+        discordFollowUserId: "",
+      },
+    };
+  },
 };
 
 const persistConfig = {
   key: "root",
-  version: 4,
+  version: 11,
   storage,
   whitelist: ["bookmarks", "settings"],
   migrate: createMigrate(migrations, { debug: false }),
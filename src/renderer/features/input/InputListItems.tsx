@@ -10,7 +10,8 @@ import ExpandMore from "@mui/icons-material/ExpandMoreRounded";
 
 import { RootState } from "../../app/store";
 import { useSelector, useDispatch } from "react-redux";
-import { addInput, removeInput, setDevices, setInput } from "./inputSlice";
+import { setDevices, setInput } from "./inputSlice";
+import { useInputs } from "./useInputs";
 
 import { InputListItem } from "./InputListItem";
 
@@ -48,32 +49,14 @@ export function InputListItems() {
     };
   }, []);
 
+  const inputs = useInputs();
+
   function handleInputChange(deviceId: string) {
-    if (settings.multipleInputsEnabled) {
-      // Already selected
-      if (input.inputs.includes(deviceId)) {
-        dispatch(removeInput(deviceId));
-        window.kenku.stopExternalAudioCapture(deviceId);
-      } else {
-        dispatch(addInput(deviceId));
-        window.kenku.startExternalAudioCapture(deviceId);
-      }
+    // Stop audio if we select the device again
+    if (input.inputs.includes(deviceId)) {
+      inputs.stop(deviceId);
     } else {
-      const prev = input.inputs[0];
-
-      // Stop audio if we select the device again
-      if (prev === deviceId) {
-        dispatch(removeInput(deviceId));
-        window.kenku.stopExternalAudioCapture(deviceId);
-        return; // Return early to prevent new capture
-      } else if (prev) {
-        // Stop previous audio capture
-        dispatch(removeInput(prev));
-        window.kenku.stopExternalAudioCapture(prev);
-      }
-      // Start new capture
-      dispatch(addInput(deviceId));
-      window.kenku.startExternalAudioCapture(deviceId);
+      inputs.start(deviceId);
     }
   }
 
@@ -0,0 +1,74 @@
+import React, { useEffect } from "react";
+
+import { useStore } from "react-redux";
+import { RootState } from "../../app/store";
+import { InputsReply } from "../../../types/remote";
+import { useInputs } from "./useInputs";
+
+// Handle remote requests that start and stop external inputs
+export function InputRemote() {
+  const store = useStore<RootState>();
+  const { start, stop } = useInputs();
+
+  useEffect(() => {
+    function replyWithInputs(requestId: string) {
+      const { input, settings } = store.getState();
+      const reply: InputsReply = {
+        enabled: settings.externalInputsEnabled,
+        devices: input.devices,
+        inputs: input.inputs,
+      };
+      window.kenku.remoteReply(requestId, reply);
+    }
+
+    function isValidInput(requestId: string, deviceId: string) {
+      const { input, settings } = store.getState();
+      if (!settings.externalInputsEnabled) {
+        window.kenku.remoteReplyError(requestId, {
+          statusCode: 409,
+          error: "Conflict",
+          message: "External inputs are disabled in settings",
+        });
+        return false;
+      }
+      if (!input.devices.some((device) => device.id === deviceId)) {
+        window.kenku.remoteReplyError(requestId, {
+          statusCode: 404,
+          error: "Not Found",
+          message: `Unable to find input device with id: ${deviceId}`,
+        });
+        return false;
+      }
+      return true;
+    }
+
+    window.kenku.on("REMOTE_INPUT_REQUEST", (args) => {
+      const requestId = args[0];
+      replyWithInputs(requestId);
+    });
+
+    window.kenku.on("REMOTE_INPUT_START", (args) => {
+      const [requestId, deviceId] = args;
+      if (isValidInput(requestId, deviceId)) {
+        start(deviceId);
+        replyWithInputs(requestId);
+      }
+    });
+
+    window.kenku.on("REMOTE_INPUT_STOP", (args) => {
+      const [requestId, deviceId] = args;
+      if (isValidInput(requestId, deviceId)) {
+        stop(deviceId);
+        replyWithInputs(requestId);
+      }
+    });
+
+    return () => {
+      window.kenku.removeAllListeners("REMOTE_INPUT_REQUEST");
+      window.kenku.removeAllListeners("REMOTE_INPUT_START");
+      window.kenku.removeAllListeners("REMOTE_INPUT_STOP");
+    };
+  }, [store, start, stop]);
+
+  return <></>;
+}
@@ -0,0 +1,45 @@
+import { useCallback } from "react";
+import { useSelector, useDispatch } from "react-redux";
+
+import { RootState } from "../../app/store";
+import { addInput, removeInput } from "./inputSlice";
+
+/** Start and stop capturing external input devices */
+export function useInputs() {
+  const inputs = useSelector((state: RootState) => state.input.inputs);
+  const multipleInputsEnabled = useSelector(
+    (state: RootState) => state.settings.multipleInputsEnabled
+  );
+  const dispatch = useDispatch();
+
+  const stop = useCallback(
+    (deviceId: string) => {
+      if (!inputs.includes(deviceId)) {
+        return;
+      }
+      dispatch(removeInput(deviceId));
+      window.kenku.stopExternalAudioCapture(deviceId);
+    },
+    [inputs, dispatch]
+  );
+
+  const start = useCallback(
+    (deviceId: string) => {
+      // Already capturing
+      if (inputs.includes(deviceId)) {
+        return;
+      }
+      const prev = inputs[0];
+      if (!multipleInputsEnabled && prev) {
+        // Stop previous audio capture
+        dispatch(removeInput(prev));
+        window.kenku.stopExternalAudioCapture(prev);
+      }
+      dispatch(addInput(deviceId));
+      window.kenku.startExternalAudioCapture(deviceId);
+    },
+    [inputs, multipleInputsEnabled, dispatch]
+  );
+
+  return { start, stop };
+}
@@ -7,14 +7,38 @@ import ListItem from "@mui/material/ListItem";
 import Box from "@mui/material/Box";
 
 import VolumeIcon from "@mui/icons-material/VolumeUpRounded";
+import StageIcon from "@mui/icons-material/PodcastsRounded";
 import TickIcon from "@mui/icons-material/CheckCircleRounded";
 
 import { VoiceChannel } from "./outputSlice";
+import { StageStatus } from "../../../types/discord";
+
+const stageStatusLabels: Record<StageStatus, string> = {
+  speaker: "Speaking",
+  requested: "Requested to speak",
+  audience: "In the audience",
+};
+
+/** Get why the bot is unable to play in a channel */
+function getUnusableReason(voiceChannel: VoiceChannel) {
+  if (voiceChannel.canConnect === false) {
+    return "No permission to connect";
+  }
+  if (voiceChannel.canSpeak === false) {
+    return "No permission to speak";
+  }
+  if (voiceChannel.full) {
+    return "Channel is full";
+  }
+  return undefined;
+}
 
 type OutputListItemProps = {
   voiceChannel: VoiceChannel;
   selected: boolean;
   tick?: boolean;
+  /** Speaker status when joined to a Stage channel */
+  stageStatus?: StageStatus;
   onClick: (channelId: string) => void;
 };
 
@@ -22,8 +46,14 @@ export function OutputListItem({
   voiceChannel,
   selected,
   tick,
+  stageStatus,
   onClick,
 }: OutputListItemProps) {
+  const unusableReason = getUnusableReason(voiceChannel);
+  // Selected channels can always be clicked to leave them
+  const disabled = Boolean(unusableReason) && !selected;
+  const showStageStatus = selected && stageStatus;
+
   return (
     <ListItem
       disablePadding
@@ -42,6 +72,7 @@ export function OutputListItem({
     >
       <ListItemButton
         selected={selected}
+        disabled={disabled}
         dense
         onClick={() => onClick(voiceChannel.id)}
       >
@@ -51,9 +82,20 @@ export function OutputListItem({
             color: selected ? "primary.main" : undefined,
           }}
         >
-          <VolumeIcon />
+          {voiceChannel.stage ? <StageIcon /> : <VolumeIcon />}
         </ListItemIcon>
-        <ListItemText primary={voiceChannel.name} />
+        <ListItemText
+          primary={voiceChannel.name}
+          secondary={
+            showStageStatus ? stageStatusLabels[stageStatus] : unusableReason
+          }
+          secondaryTypographyProps={{
+            color:
+              showStageStatus && stageStatus !== "speaker"
+                ? "warning.main"
+                : "text.secondary",
+          }}
+        />
       </ListItemButton>
     </ListItem>
   );
@@ -13,8 +13,15 @@ import ExpandLess from "@mui/icons-material/ExpandLessRounded";
 import ExpandMore from "@mui/icons-material/ExpandMoreRounded";
 
 import { RootState } from "../../app/store";
-import { useSelector, useDispatch } from "react-redux";
-import { addOutput, removeOutput, setGuilds, setOutput } from "./outputSlice";
+import { useSelector, useDispatch, useStore } from "react-redux";
+import {
+  addOutput,
+  removeOutput,
+  setGuilds,
+  setOutput,
+  setStageStatus,
+} from "./outputSlice";
+import { useOutputs } from "./useOutputs";
 
 import { OutputListItem } from "./OutputListItem";
 
@@ -28,6 +35,7 @@ export function OutputListItems() {
   const output = useSelector((state: RootState) => state.output);
   const settings = useSelector((state: RootState) => state.settings);
   const dispatch = useDispatch();
+  const store = useStore<RootState>();
 
   useEffect(() => {
     window.kenku.on("DISCORD_GUILDS", (args) => {
@@ -41,79 +49,51 @@ export function OutputListItems() {
     });
 
     window.kenku.on("DISCORD_CHANNEL_JOINED", (args) => {
-      dispatch(addOutput(args[0]));
-    });
-
-    return () => {
-      window.kenku.removeAllListeners("DISCORD_GUILDS");
-      window.kenku.removeAllListeners("DISCORD_CHANNEL_LEFT");
-      window.kenku.removeAllListeners("DISCORD_CHANNEL_JOINED");
-    };
-  }, [dispatch]);
-
-  function handleChannelChange(channelId: string) {
-    if (settings.multipleOutputsEnabled) {
-      // Already selected
-      if (output.outputs.includes(channelId)) {
-        dispatch(removeOutput(channelId));
-        if (channelId === "local") {
-          window.kenku.setLoopback(false);
-        } else {
-          window.kenku.leaveChannel(channelId);
-        }
-      } else {
-        // Not selected
+      const channelId = args[0];
+      const { output, settings } = store.getState();
+      if (
+        settings.multipleOutputsEnabled ||
+        channelId === "local" ||
+        output.outputs.includes(channelId)
+      ) {
         dispatch(addOutput(channelId));
-        if (channelId === "local") {
-          window.kenku.setLoopback(true);
-        } else {
-          // Check if the channel is in the same guild as one already selected
-          const channelsToGuild: Record<string, string> = {};
-          for (const guild of output.guilds) {
-            for (const channel of guild.voiceChannels) {
-              channelsToGuild[channel.id] = guild.id;
-            }
-          }
-          const currentGuild = channelsToGuild[channelId];
-          let guildChannel: string;
-          for (const id of output.outputs) {
-            const guild = channelsToGuild[id];
-            if (guild === currentGuild) {
-              guildChannel = id;
-            }
-          }
-          // Discord only allows for one channel to be joined per guild so we need to leave
-          // a channel if it's in the same guild as the one we're about to join
-          if (guildChannel) {
-            dispatch(removeOutput(guildChannel));
-            window.kenku.leaveChannel(guildChannel);
-          }
-
-          window.kenku.joinChannel(channelId);
-        }
-      }
-    } else {
-      const prev = output.outputs[0];
-
-      // Already selected so return early
-      if (prev === channelId) {
         return;
       }
-
-      if (prev) {
+      // Channels joined when following a user replace the current output
+      for (const prev of output.outputs) {
         if (prev === "local") {
           window.kenku.setLoopback(false);
         } else {
-          // Only leave channel if selecting a different guild
           window.kenku.leaveChannel(prev);
         }
       }
       dispatch(setOutput(channelId));
-      if (channelId === "local") {
-        window.kenku.setLoopback(true);
-      } else {
-        window.kenku.joinChannel(channelId);
-      }
+    });
+
+    window.kenku.on("DISCORD_STAGE_STATUS", (args) => {
+      const [channelId, status] = args;
+      dispatch(setStageStatus({ channelId, status }));
+    });
+
+    return () => {
+      window.kenku.removeAllListeners("DISCORD_GUILDS");
+      window.kenku.removeAllListeners("DISCORD_CHANNEL_LEFT");
+      window.kenku.removeAllListeners("DISCORD_CHANNEL_JOINED");
+      window.kenku.removeAllListeners("DISCORD_STAGE_STATUS");
+    };
+  }, [dispatch, store]);
+
+  const outputs = useOutputs();
+
+  function handleChannelChange(channelId: string) {
+    // Toggle outputs when multiple outputs are enabled
+    if (
+      settings.multipleOutputsEnabled &&
+      output.outputs.includes(channelId)
+    ) {
+      outputs.deselect(channelId);
+    } else {
+      outputs.select(channelId);
     }
   }
 
@@ -174,6 +154,7 @@ export function OutputListItems() {
                     settings.multipleOutputsEnabled &&
                     output.outputs.includes(channel.id)
                   }
+                  stageStatus={output.stageStatuses[channel.id]}
                   onClick={handleChannelChange}
                   key={channel.id}
                 />
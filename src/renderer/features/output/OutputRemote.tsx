@@ -0,0 +1,83 @@
+import React, { useEffect } from "react";
+
+import { useStore } from "react-redux";
+import { RootState } from "../../app/store";
+import { OutputsReply } from "../../../types/remote";
+import { useOutputs } from "./useOutputs";
+
+// Handle remote requests that change the selected outputs
+export function OutputRemote() {
+  const store = useStore<RootState>();
+  const { select, deselect } = useOutputs();
+
+  useEffect(() => {
+    function replyWithOutputs(requestId: string) {
+      const { guilds, outputs } = store.getState().output;
+      const reply: OutputsReply = { guilds, outputs };
+      window.kenku.remoteReply(requestId, reply);
+    }
+
+    function isValidOutput(
+      requestId: string,
+      channelId: string,
+      joining: boolean,
+    ) {
+      if (channelId === "local") {
+        return true;
+      }
+      const channel = store
+        .getState()
+        .output.guilds.flatMap((guild) => guild.voiceChannels)
+        .find((channel) => channel.id === channelId);
+      if (!channel) {
+        window.kenku.remoteReplyError(requestId, {
+          statusCode: 404,
+          error: "Not Found",
+          message: `Unable to find voice channel with id: ${channelId}`,
+        });
+        return false;
+      }
+      // Leaving is always allowed so only check if the bot can join
+      if (joining && (channel.canConnect === false || channel.full)) {
+        window.kenku.remoteReplyError(requestId, {
+          statusCode: 409,
+          error: "Conflict",
+          message: channel.full
+            ? `Voice channel is full: ${channelId}`
+            : `No permission to connect to voice channel: ${channelId}`,
+        });
+        return false;
+      }
+      return true;
+    }
+
+    window.kenku.on("REMOTE_OUTPUT_REQUEST", (args) => {
+      const requestId = args[0];
+      replyWithOutputs(requestId);
+    });
+
+    window.kenku.on("REMOTE_OUTPUT_JOIN", (args) => {
+      const [requestId, channelId] = args;
+      if (isValidOutput(requestId, channelId, true)) {
+        select(channelId);
+        replyWithOutputs(requestId);
+      }
+    });
+
+    window.kenku.on("REMOTE_OUTPUT_LEAVE", (args) => {
+      const [requestId, channelId] = args;
+      if (isValidOutput(requestId, channelId, false)) {
+        deselect(channelId);
+        replyWithOutputs(requestId);
+      }
+    });
+
+    return () => {
+      window.kenku.removeAllListeners("REMOTE_OUTPUT_REQUEST");
+      window.kenku.removeAllListeners("REMOTE_OUTPUT_JOIN");
+      window.kenku.removeAllListeners("REMOTE_OUTPUT_LEAVE");
+    };
+  }, [store, select, deselect]);
+
+  return <></>;
+}
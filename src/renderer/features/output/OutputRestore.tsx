@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from "react";
+
+import { useDispatch, useSelector } from "react-redux";
+import { RootState } from "../../app/store";
+import { setDiscordChannels } from "../settings/settingsSlice";
+import { useOutputs } from "./useOutputs";
+
+// Save the joined Discord channels and rejoin them on startup
+export function OutputRestore() {
+  const output = useSelector((state: RootState) => state.output);
+  const settings = useSelector((state: RootState) => state.settings);
+  const discordChannels = settings.discordChannels;
+  const dispatch = useDispatch();
+  const { select } = useOutputs();
+
+  const restored = useRef(false);
+
+  // Only save once restored so the startup outputs don't replace the
+  // saved channels and while connected so disconnecting keeps them.
+  // Guild updates don't change the channels so skip saving them again
+  useEffect(() => {
+    if (!restored.current || output.guilds.length === 0) {
+      return;
+    }
+    const channels = output.outputs.filter((id) => id !== "local");
+    if (channels.join() !== discordChannels.join()) {
+      dispatch(setDiscordChannels(channels));
+    }
+  }, [output.outputs, output.guilds, discordChannels, dispatch]);
+
+  // Rejoin the saved channels the first time the guilds are loaded
+  useEffect(() => {
+    if (restored.current || output.guilds.length === 0) {
+      return;
+    }
+    restored.current = true;
+    const channels = settings.discordChannels.filter((channelId) =>
+      output.guilds.some((guild) =>
+        guild.voiceChannels.some((channel) => channel.id === channelId)
+      )
+    );
+    const toJoin = settings.multipleOutputsEnabled
+      ? channels
+      : channels.slice(0, 1);
+    for (const channelId of toJoin) {
+      select(channelId);
+    }
+  }, [output.guilds, settings, select]);
+
+  return <></>;
+}
@@ -1,8 +1,15 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { StageStatus } from "../../../types/discord";
 
 export type VoiceChannel = {
   id: string;
   name: string;
+  /** Whether this is a Stage channel where the bot needs to be a speaker */
+  stage?: boolean;
+  canConnect?: boolean;
+  canSpeak?: boolean;
+  /** Whether the channel is at its user limit so the bot can't join */
+  full?: boolean;
 };
 
 export type Guild = {
@@ -15,11 +22,14 @@ export type Guild = {
 export interface OutputState {
   guilds: Guild[];
   outputs: string[];
+  /** Speaker status of the joined Stage channels */
+  stageStatuses: Record<string, StageStatus>;
 }
 
 const initialState: OutputState = {
   guilds: [],
   outputs: ["local"],
+  stageStatuses: {},
 };
 
 export const outputSlice = createSlice({
@@ -42,11 +52,23 @@ export const outputSlice = createSlice({
       state.outputs = state.outputs.filter(
         (channel) => channel !== action.payload
       );
+      delete state.stageStatuses[action.payload];
+    },
+    setStageStatus: (
+      state,
+      action: PayloadAction<{ channelId: string; status: StageStatus }>
+    ) => {
+      state.stageStatuses[action.payload.channelId] = action.payload.status;
     },
   },
 });
 
-export const { setGuilds, setOutput, addOutput, removeOutput } =
-  outputSlice.actions;
+export const {
+  setGuilds,
+  setOutput,
+  addOutput,
+  removeOutput,
+  setStageStatus,
+} = outputSlice.actions;
 
 export default outputSlice.reducer;
@@ -0,0 +1,93 @@
+import { useCallback } from "react";
+import { useSelector, useDispatch } from "react-redux";
+
+import { RootState } from "../../app/store";
+import { addOutput, removeOutput, setOutput } from "./outputSlice";
+
+/** Select and deselect outputs while keeping Discord and loopback in sync */
+export function useOutputs() {
+  const output = useSelector((state: RootState) => state.output);
+  const multipleOutputsEnabled = useSelector(
+    (state: RootState) => state.settings.multipleOutputsEnabled
+  );
+  const dispatch = useDispatch();
+
+  const deselect = useCallback(
+    (channelId: string) => {
+      if (!output.outputs.includes(channelId)) {
+        return;
+      }
+      dispatch(removeOutput(channelId));
+      if (channelId === "local") {
+        window.kenku.setLoopback(false);
+      } else {
+        window.kenku.leaveChannel(channelId);
+      }
+    },
+    [output, dispatch]
+  );
+
+  const select = useCallback(
+    (channelId: string) => {
+      if (multipleOutputsEnabled) {
+        // Already selected
+        if (output.outputs.includes(channelId)) {
+          return;
+        }
+        dispatch(addOutput(channelId));
+        if (channelId === "local") {
+          window.kenku.setLoopback(true);
+        } else {
+          // Check if the channel is in the same guild as one already selected
+          const channelsToGuild: Record<string, string> = {};
+          for (const guild of output.guilds) {
+            for (const channel of guild.voiceChannels) {
+              channelsToGuild[channel.id] = guild.id;
+            }
+          }
+          const currentGuild = channelsToGuild[channelId];
+          let guildChannel: string;
+          for (const id of output.outputs) {
+            const guild = channelsToGuild[id];
+            if (guild === currentGuild) {
+              guildChannel = id;
+            }
+          }
+          // Discord only allows for one channel to be joined per guild so we need to leave
+          // a channel if it's in the same guild as the one we're about to join
+          if (guildChannel) {
+            dispatch(removeOutput(guildChannel));
+            window.kenku.leaveChannel(guildChannel);
+          }
+
+          window.kenku.joinChannel(channelId);
+        }
+      } else {
+        const prev = output.outputs[0];
+
+        // Already selected so return early
+        if (prev === channelId) {
+          return;
+        }
+
+        if (prev) {
+          if (prev === "local") {
+            window.kenku.setLoopback(false);
+          } else {
+            // Only leave channel if selecting a different guild
+            window.kenku.leaveChannel(prev);
+          }
+        }
+        dispatch(setOutput(channelId));
+        if (channelId === "local") {
+          window.kenku.setLoopback(true);
+        } else {
+          window.kenku.joinChannel(channelId);
+        }
+      }
+    },
+    [output, multipleOutputsEnabled, dispatch]
+  );
+
+  return { select, deselect };
+}
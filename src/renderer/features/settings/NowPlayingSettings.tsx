@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from "react";
+
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import FormGroup from "@mui/material/FormGroup";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Switch from "@mui/material/Switch";
+
+import { RootState } from "../../app/store";
+import { useSelector, useDispatch } from "react-redux";
+import { setNowPlayingFileEnabled } from "./settingsSlice";
+
+/** Options for showing what is playing in streaming software */
+export function NowPlayingSettings() {
+  const settings = useSelector((state: RootState) => state.settings);
+  const dispatch = useDispatch();
+
+  const [overlayURL, setOverlayURL] = useState("");
+  const [filePath, setFilePath] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    window.kenku.playerGetRemoteURL().then((url) => {
+      if (!cancelled) {
+        setOverlayURL(`${url}overlay`);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.remoteAddress, settings.remotePort]);
+
+  useEffect(() => {
+    window.kenku.playerGetNowPlayingPath().then(setFilePath);
+  }, []);
+
+  function handleFileToggle() {
+    dispatch(setNowPlayingFileEnabled(!settings.nowPlayingFileEnabled));
+  }
+
+  return (
+    <Stack spacing={1}>
+      <Typography variant="caption" color="text.secondary">
+        {!settings.remoteEnabled
+          ? "Enable the remote to use the browser source overlay"
+          : settings.remoteAuthEnabled
+          ? `Add ${overlayURL}?token=<key> as a browser source to show an overlay, replacing <key> with an API key that can read`
+          : `Add ${overlayURL} as a browser source to show an overlay`}
+      </Typography>
+      <FormGroup>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.nowPlayingFileEnabled}
+              onChange={handleFileToggle}
+            />
+          }
+          sx={{ marginLeft: "-8px" }}
+          label={
+            <Typography variant="caption">Write Now Playing File</Typography>
+          }
+        />
+      </FormGroup>
+      {settings.nowPlayingFileEnabled && filePath && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ wordBreak: "break-all" }}
+        >
+          {filePath}
+        </Typography>
+      )}
+    </Stack>
+  );
+}
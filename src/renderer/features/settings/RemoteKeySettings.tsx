@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+
+import Stack from "@mui/material/Stack";
+import TextField from "@mui/material/TextField";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+import FormGroup from "@mui/material/FormGroup";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Checkbox from "@mui/material/Checkbox";
+import List from "@mui/material/List";
+import ListItem from "@mui/material/ListItem";
+import ListItemText from "@mui/material/ListItemText";
+import IconButton from "@mui/material/IconButton";
+
+import CopyIcon from "@mui/icons-material/ContentCopyRounded";
+import DeleteIcon from "@mui/icons-material/DeleteRounded";
+
+import { v4 as uuid } from "uuid";
+
+import { RootState } from "../../app/store";
+import { useSelector, useDispatch } from "react-redux";
+import { addRemoteKey, removeRemoteKey } from "./settingsSlice";
+import { RemoteScope } from "../../../types/remote";
+
+const scopeLabels: Record<RemoteScope, string> = {
+  read: "Read",
+  playback: "Playback",
+  library: "Library",
+};
+
+/** Generate a random 32 character hex key */
+function generateKey() {
+  const bytes = window.crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+export function RemoteKeySettings() {
+  const remoteKeys = useSelector(
+    (state: RootState) => state.settings.remoteKeys
+  );
+  const dispatch = useDispatch();
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<RemoteScope[]>(["read", "playback"]);
+
+  function handleNameChange(event: React.ChangeEvent<HTMLInputElement>) {
+    setName(event.target.value);
+  }
+
+  function handleScopeToggle(scope: RemoteScope) {
+    if (scopes.includes(scope)) {
+      setScopes(scopes.filter((s) => s !== scope));
+    } else {
+      setScopes([...scopes, scope]);
+    }
+  }
+
+  function handleKeyAdd() {
+    dispatch(addRemoteKey({ id: uuid(), name, key: generateKey(), scopes }));
+    setName("");
+  }
+
+  function handleKeyCopy(key: string) {
+    navigator.clipboard.writeText(key);
+  }
+
+  function handleKeyRemove(id: string) {
+    dispatch(removeRemoteKey(id));
+  }
+
+  return (
+    <Stack spacing={1}>
+      <List dense disablePadding>
+        {remoteKeys.map((remoteKey) => (
+          <ListItem
+            key={remoteKey.id}
+            disableGutters
+            secondaryAction={
+              <>
+                <IconButton
+                  size="small"
+                  title="Copy Key"
+                  onClick={() => handleKeyCopy(remoteKey.key)}
+                >
+                  <CopyIcon fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  edge="end"
+                  title="Revoke Key"
+                  onClick={() => handleKeyRemove(remoteKey.id)}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </>
+            }
+          >
+            <ListItemText
+              primary={remoteKey.name}
+              secondary={remoteKey.scopes
+                .map((scope) => scopeLabels[scope])
+                .join(", ")}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <TextField
+        margin="dense"
+        size="small"
+        id="remote-key-name"
+        label="Key Name"
+        variant="standard"
+        autoComplete="off"
+        InputLabelProps={{
+          shrink: true,
+        }}
+        value={name}
+        onChange={handleNameChange}
+      />
+      <FormGroup row>
+        {(Object.keys(scopeLabels) as RemoteScope[]).map((scope) => (
+          <FormControlLabel
+            key={scope}
+            control={
+              <Checkbox
+                size="small"
+                checked={scopes.includes(scope)}
+                onChange={() => handleScopeToggle(scope)}
+              />
+            }
+            label={
+              <Typography variant="caption">{scopeLabels[scope]}</Typography>
+            }
+          />
+        ))}
+      </FormGroup>
+      <Button
+        onClick={handleKeyAdd}
+        fullWidth
+        variant="outlined"
+        size="small"
+        disabled={!name || scopes.length === 0}
+      >
+        Generate Key
+      </Button>
+    </Stack>
+  );
+}
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from "react";
+
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Link from "@mui/material/Link";
+
+import QRCode from "qrcode";
+
+type RemoteQRCodeProps = {
+  address: string;
+  port: string;
+};
+
+/** QR code to open the web remote on a phone */
+export function RemoteQRCode({ address, port }: RemoteQRCodeProps) {
+  const [url, setURL] = useState("");
+  const [image, setImage] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    window.kenku.playerGetRemoteURL().then(async (url) => {
+      const image = await QRCode.toDataURL(url, { margin: 1, width: 160 });
+      if (!cancelled) {
+        setURL(url);
+        setImage(image);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, port]);
+
+  const local = address === "127.0.0.1" || address === "localhost";
+
+  if (!image) {
+    return null;
+  }
+
+  return (
+    <Stack alignItems="center" spacing={1}>
+      <img src={image} alt="Web remote QR code" width={160} height={160} />
+      <Link
+        href={url}
+        variant="caption"
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        {url}
+      </Link>
+      {local && (
+        <Typography variant="caption" color="text.secondary" textAlign="center">
+          Set the address to 0.0.0.0 to connect from other devices
+        </Typography>
+      )}
+    </Stack>
+  );
+}
@@ -26,17 +26,31 @@ import { useSelector, useDispatch } from "react-redux";
 import { setStatus } from "../connection/connectionSlice";
 import {
   setDiscordToken,
+  setDiscordCommandsEnabled,
+  setDiscordCommandRole,
+  setDiscordFollowEnabled,
+  setDiscordFollowUserId,
   setExternalInputsEnabled,
   setMultipleInputsEnabled,
   setMultipleOutputsEnabled,
   setRemoteEnabled,
   setRemoteAddress,
   setRemotePort,
+  setRemoteAuthEnabled,
+  setOSCEnabled,
+  setOSCAddress,
+  setOSCPort,
+  setOSCFeedbackAddress,
+  setOSCFeedbackPort,
   setURLBarEnabled,
   setStreamingMode,
   StreamingMode,
 } from "./settingsSlice";
 import { showWindowControls } from "../../common/showWindowControls";
+import { RemoteKeySettings } from "./RemoteKeySettings";
+import { RemoteQRCode } from "./RemoteQRCode";
+import { WebhookSettings } from "./WebhookSettings";
+import { NowPlayingSettings } from "./NowPlayingSettings";
 
 type SettingsProps = {
   open: boolean;
@@ -61,6 +75,40 @@ export function Settings({ open, onClose }: SettingsProps) {
     }
   }
 
+  function handleDiscordCommandsToggle() {
+    dispatch(setDiscordCommandsEnabled(!settings.discordCommandsEnabled));
+  }
+
+  function handleDiscordCommandRoleChange(
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) {
+    dispatch(setDiscordCommandRole(e.target.value));
+  }
+
+  function handleDiscordFollowToggle() {
+    dispatch(setDiscordFollowEnabled(!settings.discordFollowEnabled));
+  }
+
+  function handleDiscordFollowUserIdChange(
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) {
+    dispatch(setDiscordFollowUserId(e.target.value));
+  }
+
+  // Sync commands before connecting so they are registered once ready
+  useEffect(() => {
+    window.kenku.setDiscordCommands(
+      settings.discordCommandsEnabled,
+      settings.discordCommandRole,
+    );
+  }, [settings.discordCommandsEnabled, settings.discordCommandRole]);
+
+  useEffect(() => {
+    window.kenku.setDiscordFollowUser(
+      settings.discordFollowEnabled ? settings.discordFollowUserId : "",
+    );
+  }, [settings.discordFollowEnabled, settings.discordFollowUserId]);
+
   useEffect(() => {
     if (settings.discordToken) {
       dispatch(setStatus("connecting"));
@@ -79,10 +127,14 @@ export function Settings({ open, onClose }: SettingsProps) {
     window.kenku.on("DISCORD_DISCONNECTED", () => {
       dispatch(setStatus("disconnected"));
     });
+    window.kenku.on("DISCORD_RECONNECTING", () => {
+      dispatch(setStatus("connecting"));
+    });
 
     return () => {
       window.kenku.removeAllListeners("DISCORD_READY");
       window.kenku.removeAllListeners("DISCORD_DISCONNECTED");
+      window.kenku.removeAllListeners("DISCORD_RECONNECTING");
     };
   }, [dispatch]);
 
@@ -121,6 +173,64 @@ export function Settings({ open, onClose }: SettingsProps) {
           "Connect"
         )}
       </Button>
+      <FormGroup>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.discordCommandsEnabled}
+              onChange={handleDiscordCommandsToggle}
+            />
+          }
+          sx={{ marginLeft: "-8px" }}
+          label={<Typography variant="caption">Slash Commands</Typography>}
+        />
+      </FormGroup>
+      {settings.discordCommandsEnabled && (
+        <TextField
+          margin="dense"
+          size="small"
+          id="discord-command-role"
+          label="Command Role ID"
+          fullWidth
+          variant="standard"
+          autoComplete="off"
+          InputLabelProps={{
+            shrink: true,
+          }}
+          value={settings.discordCommandRole}
+          onChange={handleDiscordCommandRoleChange}
+          helperText="Role ID allowed to use /kenku, leave empty for admins only"
+        />
+      )}
+      <FormGroup>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.discordFollowEnabled}
+              onChange={handleDiscordFollowToggle}
+            />
+          }
+          sx={{ marginLeft: "-8px" }}
+          label={<Typography variant="caption">Follow User</Typography>}
+        />
+      </FormGroup>
+      {settings.discordFollowEnabled && (
+        <TextField
+          margin="dense"
+          size="small"
+          id="discord-follow-user"
+          label="User ID"
+          fullWidth
+          variant="standard"
+          autoComplete="off"
+          InputLabelProps={{
+            shrink: true,
+          }}
+          value={settings.discordFollowUserId}
+          onChange={handleDiscordFollowUserIdChange}
+          helperText="Join, move and leave voice channels with this user"
+        />
+      )}
       <Link
         href="https://kenku.fm/docs/getting-a-discord-token"
         variant="caption"
@@ -157,6 +267,25 @@ export function Settings({ open, onClose }: SettingsProps) {
     dispatch(setRemotePort(event.target.value));
   }
 
+  function handleRemoteAuthToggle() {
+    dispatch(setRemoteAuthEnabled(!settings.remoteAuthEnabled));
+  }
+
+  useEffect(() => {
+    window.kenku.playerSetRemoteAuth(
+      settings.remoteAuthEnabled,
+      settings.remoteKeys,
+    );
+  }, [settings.remoteAuthEnabled, settings.remoteKeys]);
+
+  useEffect(() => {
+    window.kenku.playerSetWebhooks(settings.webhooks);
+  }, [settings.webhooks]);
+
+  useEffect(() => {
+    window.kenku.playerSetNowPlayingFile(settings.nowPlayingFileEnabled);
+  }, [settings.nowPlayingFileEnabled]);
+
   useEffect(() => {
     if (settings.remoteEnabled) {
       window.kenku.playerStartRemote(
@@ -211,6 +340,25 @@ export function Settings({ open, onClose }: SettingsProps) {
       >
         {settings.remoteEnabled ? "Stop Remote" : "Start Remote"}
       </Button>
+      {settings.remoteEnabled && (
+        <RemoteQRCode
+          address={settings.remoteAddress}
+          port={settings.remotePort}
+        />
+      )}
+      <FormGroup>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.remoteAuthEnabled}
+              onChange={handleRemoteAuthToggle}
+            />
+          }
+          sx={{ marginLeft: "-8px" }}
+          label={<Typography variant="caption">Require API Key</Typography>}
+        />
+      </FormGroup>
+      {settings.remoteAuthEnabled && <RemoteKeySettings />}
       <Link
         href="https://www.kenku.fm/docs/using-kenku-remote"
         variant="caption"
@@ -224,6 +372,152 @@ export function Settings({ open, onClose }: SettingsProps) {
     </Stack>
   );
 
+  function handleOSCToggle() {
+    const enabled = !settings.oscEnabled;
+    if (enabled) {
+      window.kenku.playerStartOSC(
+        settings.oscAddress,
+        settings.oscPort,
+        settings.oscFeedbackAddress,
+        settings.oscFeedbackPort,
+      );
+    } else {
+      window.kenku.playerStopOSC();
+    }
+    dispatch(setOSCEnabled(enabled));
+  }
+
+  function handleOSCAddressChange(event: React.ChangeEvent<HTMLInputElement>) {
+    dispatch(setOSCAddress(event.target.value));
+  }
+
+  function handleOSCPortChange(event: React.ChangeEvent<HTMLInputElement>) {
+    dispatch(setOSCPort(event.target.value));
+  }
+
+  function handleOSCFeedbackAddressChange(
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) {
+    dispatch(setOSCFeedbackAddress(event.target.value));
+  }
+
+  function handleOSCFeedbackPortChange(
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) {
+    dispatch(setOSCFeedbackPort(event.target.value));
+  }
+
+  useEffect(() => {
+    if (settings.oscEnabled) {
+      window.kenku.playerStartOSC(
+        settings.oscAddress,
+        settings.oscPort,
+        settings.oscFeedbackAddress,
+        settings.oscFeedbackPort,
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    // Keep the toggle in sync when the listener fails to start
+    window.kenku.on("PLAYER_OSC_ENABLED", (args) => {
+      dispatch(setOSCEnabled(args[0]));
+    });
+
+    return () => {
+      window.kenku.removeAllListeners("PLAYER_OSC_ENABLED");
+    };
+  }, [dispatch]);
+
+  const oscSettings = (
+    <Stack spacing={1}>
+      <Stack direction="row">
+        <TextField
+          margin="dense"
+          size="small"
+          id="osc-address"
+          label="Address"
+          variant="standard"
+          autoComplete="off"
+          InputLabelProps={{
+            shrink: true,
+          }}
+          inputProps={{ pattern: "d{1,3}.d{1,3}.d{1,3}.d{1,3}" }}
+          value={settings.oscAddress}
+          onChange={handleOSCAddressChange}
+          disabled={settings.oscEnabled}
+          sx={{ mr: 0.5 }}
+        />
+        <TextField
+          margin="dense"
+          size="small"
+          id="osc-port"
+          label="Port"
+          variant="standard"
+          autoComplete="off"
+          InputLabelProps={{
+            shrink: true,
+          }}
+          inputProps={{ pattern: "d+" }}
+          value={settings.oscPort}
+          onChange={handleOSCPortChange}
+          disabled={settings.oscEnabled}
+          sx={{ ml: 0.5 }}
+        />
+      </Stack>
+      <Stack direction="row">
+        <TextField
+          margin="dense"
+          size="small"
+          id="osc-feedback-address"
+          label="Feedback Address"
+          variant="standard"
+          autoComplete="off"
+          InputLabelProps={{
+            shrink: true,
+          }}
+          inputProps={{ pattern: "d{1,3}.d{1,3}.d{1,3}.d{1,3}" }}
+          value={settings.oscFeedbackAddress}
+          onChange={handleOSCFeedbackAddressChange}
+          disabled={settings.oscEnabled}
+          sx={{ mr: 0.5 }}
+        />
+        <TextField
+          margin="dense"
+          size="small"
+          id="osc-feedback-port"
+          label="Feedback Port"
+          variant="standard"
+          autoComplete="off"
+          InputLabelProps={{
+            shrink: true,
+          }}
+          inputProps={{ pattern: "d+" }}
+          value={settings.oscFeedbackPort}
+          onChange={handleOSCFeedbackPortChange}
+          disabled={settings.oscEnabled}
+          sx={{ ml: 0.5 }}
+        />
+      </Stack>
+      <Typography variant="caption" color="text.secondary">
+        Leave the feedback port empty to disable feedback
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        OSC doesn't use API keys so anyone who can reach the address can
+        control playback
+      </Typography>
+      <Button
+        onClick={handleOSCToggle}
+        fullWidth
+        variant="outlined"
+        size="small"
+        disabled={!settings.oscAddress || !settings.oscPort}
+      >
+        {settings.oscEnabled ? "Stop OSC" : "Start OSC"}
+      </Button>
+    </Stack>
+  );
+
   const [streamingModeChanged, setStreamingModeChanged] = useState(false);
 
   function handleStreamingModeChnage(event: SelectChangeEvent) {
@@ -364,9 +658,18 @@ export function Settings({ open, onClose }: SettingsProps) {
         <DialogContentText>Remote</DialogContentText>
         {remoteSettings}
         <Divider sx={{ mb: 2 }} />
+        <DialogContentText>OSC</DialogContentText>
+        {oscSettings}
+        <Divider sx={{ my: 2 }} />
+        <DialogContentText>Webhooks</DialogContentText>
+        <WebhookSettings />
+        <Divider sx={{ my: 2 }} />
         <DialogContentText>Streaming</DialogContentText>
         {streamingSettings}
-        <Divider sx={{ mb: 2 }} />
+        <Divider sx={{ my: 2 }} />
+        <DialogContentText>Now Playing</DialogContentText>
+        <NowPlayingSettings />
+        <Divider sx={{ my: 2 }} />
         <DialogContentText>Other</DialogContentText>
         {otherSettings}
         <Stack my={1}>
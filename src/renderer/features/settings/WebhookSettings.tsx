@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+
+import Stack from "@mui/material/Stack";
+import TextField from "@mui/material/TextField";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+import FormGroup from "@mui/material/FormGroup";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Checkbox from "@mui/material/Checkbox";
+import List from "@mui/material/List";
+import ListItem from "@mui/material/ListItem";
+import ListItemText from "@mui/material/ListItemText";
+import IconButton from "@mui/material/IconButton";
+
+import DeleteIcon from "@mui/icons-material/DeleteRounded";
+
+import { v4 as uuid } from "uuid";
+
+import { RootState } from "../../app/store";
+import { useSelector, useDispatch } from "react-redux";
+import { addWebhook, removeWebhook } from "./settingsSlice";
+import { WebhookEvent } from "../../../types/remote";
+
+const eventLabels: Record<WebhookEvent, string> = {
+  "track-start": "Track Start",
+  "playlist-change": "Playlist Change",
+  "soundboard-play": "Sound Play",
+  "discord-join": "Discord Join",
+  "discord-leave": "Discord Leave",
+  error: "Error",
+};
+
+function isValidURL(url: string) {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function WebhookSettings() {
+  const webhooks = useSelector((state: RootState) => state.settings.webhooks);
+  const dispatch = useDispatch();
+
+  const [url, setURL] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(
+    Object.keys(eventLabels) as WebhookEvent[]
+  );
+
+  function handleURLChange(event: React.ChangeEvent<HTMLInputElement>) {
+    setURL(event.target.value);
+  }
+
+  function handleEventToggle(event: WebhookEvent) {
+    if (events.includes(event)) {
+      setEvents(events.filter((e) => e !== event));
+    } else {
+      setEvents([...events, event]);
+    }
+  }
+
+  function handleWebhookAdd() {
+    dispatch(addWebhook({ id: uuid(), url, events }));
+    setURL("");
+  }
+
+  function handleWebhookRemove(id: string) {
+    dispatch(removeWebhook(id));
+  }
+
+  return (
+    <Stack spacing={1}>
+      <List dense disablePadding>
+        {webhooks.map((webhook) => (
+          <ListItem
+            key={webhook.id}
+            disableGutters
+            secondaryAction={
+              <IconButton
+                size="small"
+                edge="end"
+                title="Remove Webhook"
+                onClick={() => handleWebhookRemove(webhook.id)}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            }
+          >
+            <ListItemText
+              primary={webhook.url}
+              primaryTypographyProps={{ noWrap: true }}
+              secondary={webhook.events
+                .map((event) => eventLabels[event])
+                .join(", ")}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <TextField
+        margin="dense"
+        size="small"
+        id="webhook-url"
+        label="URL"
+        variant="standard"
+        autoComplete="off"
+        InputLabelProps={{
+          shrink: true,
+        }}
+        placeholder="http://127.0.0.1:8080/kenku"
+        value={url}
+        onChange={handleURLChange}
+      />
+      <FormGroup row>
+        {(Object.keys(eventLabels) as WebhookEvent[]).map((event) => (
+          <FormControlLabel
+            key={event}
+            control={
+              <Checkbox
+                size="small"
+                checked={events.includes(event)}
+                onChange={() => handleEventToggle(event)}
+              />
+            }
+            label={
+              <Typography variant="caption">{eventLabels[event]}</Typography>
+            }
+          />
+        ))}
+      </FormGroup>
+      <Button
+        onClick={handleWebhookAdd}
+        fullWidth
+        variant="outlined"
+        size="small"
+        disabled={!isValidURL(url) || events.length === 0}
+      >
+        Add Webhook
+      </Button>
+    </Stack>
+  );
+}
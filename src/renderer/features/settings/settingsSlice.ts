@@ -1,14 +1,30 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { RemoteKey, Webhook } from "../../../types/remote";
 
 export type ConnectionStatus = "disconnected" | "connecting" | "ready";
 export type StreamingMode = "lowLatency" | "performance";
 
 export interface SettingsState {
   discordToken: string;
+  discordCommandsEnabled: boolean;
+  discordCommandRole: string;
+  /** Discord channels that were joined when last connected */
+  discordChannels: string[];
+  discordFollowEnabled: boolean;
+  discordFollowUserId: string;
   urlBarEnabled: boolean;
   remoteEnabled: boolean;
   remoteAddress: string;
   remotePort: string;
+  remoteAuthEnabled: boolean;
+  remoteKeys: RemoteKey[];
+  oscEnabled: boolean;
+  oscAddress: string;
+  oscPort: string;
+  oscFeedbackAddress: string;
+  oscFeedbackPort: string;
+  webhooks: Webhook[];
+  nowPlayingFileEnabled: boolean;
   externalInputsEnabled: boolean;
   multipleInputsEnabled: boolean;
   multipleOutputsEnabled: boolean;
@@ -17,10 +33,24 @@ export interface SettingsState {
 
 const initialState: SettingsState = {
   discordToken: "",
+  discordCommandsEnabled: false,
+  discordCommandRole: "",
+  discordChannels: [],
+  discordFollowEnabled: false,
+  discordFollowUserId: "",
   urlBarEnabled: true,
   remoteEnabled: false,
   remoteAddress: "127.0.0.1",
   remotePort: "3333",
+  remoteAuthEnabled: false,
+  remoteKeys: [],
+  oscEnabled: false,
+  oscAddress: "127.0.0.1",
+  oscPort: "9000",
+  oscFeedbackAddress: "127.0.0.1",
+  oscFeedbackPort: "9001",
+  webhooks: [],
+  nowPlayingFileEnabled: false,
   externalInputsEnabled: false,
   multipleInputsEnabled: false,
   multipleOutputsEnabled: false,
@@ -34,6 +64,21 @@ export const connectionSlice = createSlice({
     setDiscordToken: (state, action: PayloadAction<string>) => {
       state.discordToken = action.payload;
     },
+    setDiscordCommandsEnabled: (state, action: PayloadAction<boolean>) => {
+      state.discordCommandsEnabled = action.payload;
+    },
+    setDiscordCommandRole: (state, action: PayloadAction<string>) => {
+      state.discordCommandRole = action.payload;
+    },
+    setDiscordChannels: (state, action: PayloadAction<string[]>) => {
+      state.discordChannels = action.payload;
+    },
+    setDiscordFollowEnabled: (state, action: PayloadAction<boolean>) => {
+      state.discordFollowEnabled = action.payload;
+    },
+    setDiscordFollowUserId: (state, action: PayloadAction<string>) => {
+      state.discordFollowUserId = action.payload;
+    },
     setURLBarEnabled: (state, action: PayloadAction<boolean>) => {
       state.urlBarEnabled = action.payload;
     },
@@ -46,6 +91,43 @@ export const connectionSlice = createSlice({
     setRemotePort: (state, action: PayloadAction<string>) => {
       state.remotePort = action.payload;
     },
+    setRemoteAuthEnabled: (state, action: PayloadAction<boolean>) => {
+      state.remoteAuthEnabled = action.payload;
+    },
+    addRemoteKey: (state, action: PayloadAction<RemoteKey>) => {
+      state.remoteKeys.push(action.payload);
+    },
+    removeRemoteKey: (state, action: PayloadAction<string>) => {
+      state.remoteKeys = state.remoteKeys.filter(
+        (key) => key.id !== action.payload
+      );
+    },
+    setOSCEnabled: (state, action: PayloadAction<boolean>) => {
+      state.oscEnabled = action.payload;
+    },
+    setOSCAddress: (state, action: PayloadAction<string>) => {
+      state.oscAddress = action.payload;
+    },
+    setOSCPort: (state, action: PayloadAction<string>) => {
+      state.oscPort = action.payload;
+    },
+    setOSCFeedbackAddress: (state, action: PayloadAction<string>) => {
+      state.oscFeedbackAddress = action.payload;
+    },
+    setOSCFeedbackPort: (state, action: PayloadAction<string>) => {
+      state.oscFeedbackPort = action.payload;
+    },
+    addWebhook: (state, action: PayloadAction<Webhook>) => {
+      state.webhooks.push(action.payload);
+    },
+    removeWebhook: (state, action: PayloadAction<string>) => {
+      state.webhooks = state.webhooks.filter(
+        (webhook) => webhook.id !== action.payload
+      );
+    },
+    setNowPlayingFileEnabled: (state, action: PayloadAction<boolean>) => {
+      state.nowPlayingFileEnabled = action.payload;
+    },
     setExternalInputsEnabled: (state, action: PayloadAction<boolean>) => {
       state.externalInputsEnabled = action.payload;
     },
@@ -63,10 +145,26 @@ export const connectionSlice = createSlice({
 
 export const {
   setDiscordToken,
+  setDiscordCommandsEnabled,
+  setDiscordCommandRole,
+  setDiscordChannels,
+  setDiscordFollowEnabled,
+  setDiscordFollowUserId,
   setURLBarEnabled,
   setRemoteEnabled,
   setRemoteAddress,
   setRemotePort,
+  setRemoteAuthEnabled,
+  addRemoteKey,
+  removeRemoteKey,
+  setOSCEnabled,
+  setOSCAddress,
+  setOSCPort,
+  setOSCFeedbackAddress,
+  setOSCFeedbackPort,
+  addWebhook,
+  removeWebhook,
+  setNowPlayingFileEnabled,
   setExternalInputsEnabled,
   setMultipleInputsEnabled,
   setMultipleOutputsEnabled,
@@ -0,0 +1,147 @@
+import React, { useEffect } from "react";
+
+import { sanitizeUrl } from "@braintree/sanitize-url";
+
+import { useDispatch, useStore } from "react-redux";
+import { RootState } from "../../app/store";
+import { Tab, addTab, editTab, removeTab, selectTab } from "./tabsSlice";
+import { setMuted } from "../player/playerSlice";
+import { getBounds } from "./getBounds";
+import { prependHttp } from "./URLBar";
+import { TabReply, TabsReply } from "../../../types/remote";
+
+function notFound(requestId: string, id: number) {
+  window.kenku.remoteReplyError(requestId, {
+    statusCode: 404,
+    error: "Not Found",
+    message: `Unable to find tab with id: ${id}`,
+  });
+}
+
+// Handle remote requests that view or change the browser tabs
+export function TabsRemote() {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    function getTabReply(tab: Tab): TabReply {
+      const { player, tabs } = store.getState();
+      return {
+        id: tab.id,
+        title: tab.title,
+        url: tab.url,
+        playing: tab.playingMedia > 0,
+        muted: tab.muted,
+        selected: tab.id === tabs.selectedTab,
+        player: tab.id === player.tab.id,
+      };
+    }
+
+    function getTab(id: number): Tab | undefined {
+      const { player, tabs } = store.getState();
+      return id === player.tab.id ? player.tab : tabs.tabs.byId[id];
+    }
+
+    window.kenku.on("REMOTE_TABS_REQUEST", (args) => {
+      const requestId = args[0];
+      const { player, tabs } = store.getState();
+      const reply: TabsReply = {
+        tabs: [
+          player.tab,
+          ...tabs.tabs.allIds.map((id) => tabs.tabs.byId[id]),
+        ].map(getTabReply),
+      };
+      window.kenku.remoteReply(requestId, reply);
+    });
+
+    window.kenku.on("REMOTE_TABS_OPEN", async (args) => {
+      const [requestId, url] = args;
+      const sanitizedUrl = sanitizeUrl(prependHttp(url));
+      const bounds = getBounds();
+      let id: number;
+      try {
+        id = await window.kenku.createBrowserView(
+          sanitizedUrl,
+          bounds.x,
+          bounds.y,
+          bounds.width,
+          bounds.height,
+        );
+      } catch (err) {
+        window.kenku.remoteReplyError(requestId, {
+          statusCode: 500,
+          error: "Internal Server Error",
+          message: `Unable to open tab: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+        });
+        return;
+      }
+      const tab: Tab = {
+        id,
+        url: sanitizedUrl,
+        title: "New Tab",
+        icon: "",
+        playingMedia: 0,
+        muted: false,
+      };
+      dispatch(addTab(tab));
+      dispatch(selectTab(id));
+      window.kenku.remoteReply(requestId, getTabReply(tab));
+    });
+
+    window.kenku.on("REMOTE_TABS_CLOSE", (args) => {
+      const [requestId, id] = args;
+      const { player, tabs } = store.getState();
+      // Don't close the kenku player tab
+      if (id === player.tab.id) {
+        window.kenku.remoteReplyError(requestId, {
+          statusCode: 409,
+          error: "Conflict",
+          message: "Unable to close the Kenku Player tab",
+        });
+        return;
+      }
+      if (!(id in tabs.tabs.byId)) {
+        notFound(requestId, id);
+        return;
+      }
+      // Find previous tab so we can select when closing the tab
+      const tabIds = tabs.tabs.allIds;
+      const prevTabIndex = tabIds.indexOf(id) - 1;
+      const prevTabId = tabIds[prevTabIndex] || player.tab.id; // If there's no previous use the kenku player tab
+
+      // Remove tab and select previous if it was selected
+      dispatch(removeTab(id));
+      window.kenku.removeBrowserView(id);
+      if (id === tabs.selectedTab) {
+        dispatch(selectTab(prevTabId));
+      }
+      window.kenku.remoteReply(requestId, { id });
+    });
+
+    window.kenku.on("REMOTE_TABS_MUTE", (args) => {
+      const [requestId, id, muted] = args;
+      if (!getTab(id)) {
+        notFound(requestId, id);
+        return;
+      }
+      window.kenku.setMuted(id, muted);
+      if (id === store.getState().player.tab.id) {
+        dispatch(setMuted(muted));
+      } else {
+        dispatch(editTab({ id, muted }));
+      }
+      window.kenku.remoteReply(requestId, getTabReply(getTab(id)));
+    });
+
+    return () => {
+      window.kenku.removeAllListeners("REMOTE_TABS_REQUEST");
+      window.kenku.removeAllListeners("REMOTE_TABS_OPEN");
+      window.kenku.removeAllListeners("REMOTE_TABS_CLOSE");
+      window.kenku.removeAllListeners("REMOTE_TABS_MUTE");
+    };
+  }, [store, dispatch]);
+
+  return <></>;
+}
@@ -100,7 +100,7 @@ export function URLBar({ viewId, url, onURLChange, disabled }: URLBarProps) {
   );
 }
 
-function prependHttp(url: string, { https = true } = {}) {
+export function prependHttp(url: string, { https = true } = {}) {
   url = url.trim();
 
   if (/^\.*\/|^(?!localhost)\w+?:/.test(url)) {
@@ -0,0 +1,2 @@
+/** Whether the bot can be heard in a joined Stage channel */
+export type StageStatus = "speaker" | "requested" | "audience";
@@ -1,3 +1,9 @@
+export type ReplyError = {
+  statusCode: number;
+  error: string;
+  message: string;
+};
+
 export interface PlaylistPlaybackReply {
   playing: boolean;
   volume: number;
@@ -17,6 +23,21 @@ export interface PlaylistPlaybackReply {
   };
 }
 
+export interface PlaylistQueueReply {
+  /** Index of the current track in `tracks` */
+  current?: number;
+  /** Tracks in the order they will be played */
+  tracks: {
+    id: string;
+    url: string;
+    title: string;
+  }[];
+  playlist?: {
+    id: string;
+    title: string;
+  };
+}
+
 export interface SoundboardPlaybackReply {
   sounds: {
     id: string;
@@ -75,3 +96,37 @@ export interface TrackSourceProgress {
   message: string;
   progress?: number;
 }
+
+/** Image to render for the remote, a built-in background or image data */
+export type RemoteImageSource =
+  | { background: string }
+  | { data: Uint8Array; contentType: string };
+
+export interface RemoteImageOptions {
+  width?: number;
+  height?: number;
+  /** Title to overlay at the bottom of the image */
+  title?: string;
+}
+
+export type RemoteEvent =
+  | {
+      type: "playlist-track";
+      track?: PlaylistPlaybackReply["track"];
+      playlist?: PlaylistPlaybackReply["playlist"];
+    }
+  | { type: "playlist-progress"; progress: number; duration: number }
+  | { type: "playlist-playing"; playing: boolean }
+  | { type: "playlist-volume"; volume: number }
+  | { type: "playlist-mute"; muted: boolean }
+  | { type: "playlist-shuffle"; shuffle: boolean }
+  | { type: "playlist-repeat"; repeat: PlaylistPlaybackReply["repeat"] }
+  | {
+      type: "soundboard-play";
+      sound: SoundboardPlaybackReply["sounds"][number];
+    }
+  | { type: "soundboard-stop"; id: string }
+  | {
+      type: "soundboard-progress";
+      sounds: { id: string; progress: number }[];
+    };
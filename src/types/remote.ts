@@ -0,0 +1,130 @@
+
+/**
+ * Permission granted to a remote API key
+ * `read` allows fetching state, `playback` allows controlling playback
+ * and `library` allows editing playlists and soundboards and opening tabs
+ */
+export type RemoteScope = "read" | "playback" | "library";
+
+export interface RemoteKey {
+  id: string;
+  name: string;
+  key: string;
+  scopes: RemoteScope[];
+}
+
+export interface OutputsReply {
+  guilds: {
+    id: string;
+    name: string;
+    icon: string;
+    voiceChannels: {
+      id: string;
+      name: string;
+      /** Whether this is a Stage channel where the bot needs to be a speaker */
+      stage?: boolean;
+      canConnect?: boolean;
+      canSpeak?: boolean;
+      /** Whether the channel is at its user limit so the bot can't join */
+      full?: boolean;
+    }[];
+  }[];
+  /** Selected outputs, `local` is used for this computer */
+  outputs: string[];
+}
+
+export interface InputsReply {
+  /** Whether external inputs are enabled in settings */
+  enabled: boolean;
+  devices: {
+    id: string;
+    label: string;
+  }[];
+  /** Ids of the devices being captured */
+  inputs: string[];
+}
+
+export interface TabReply {
+  id: number;
+  title: string;
+  url: string;
+  /** Whether media is playing in the tab */
+  playing: boolean;
+  muted: boolean;
+  selected: boolean;
+  /** Whether this is the Kenku Player tab */
+  player: boolean;
+}
+
+export interface TabsReply {
+  tabs: TabReply[];
+}
+
+export interface StatusReply {
+  version: string;
+  discord: {
+    status: "disconnected" | "connecting" | "ready";
+    /** Tag of the bot user once logged in */
+    user?: string;
+    voiceChannels: {
+      id: string;
+      name: string;
+      guildId: string;
+      guildName: string;
+      /** State of the voice connection e.g. `ready` or `signalling` */
+      status: string;
+    }[];
+    /** State of the Discord audio player e.g. `playing` or `idle` */
+    audioPlayer: string;
+  };
+  audioCapture: {
+    streamingMode?: "lowLatency" | "performance";
+    /** Whether audio is being encoded for Discord */
+    streaming: boolean;
+    /** Whether audio is played on this computer */
+    loopback: boolean;
+    /** Ids of the external input devices being captured */
+    inputs: string[];
+  };
+  /** Whether the Kenku Player view is registered */
+  playerView: boolean;
+}
+
+export type WebhookEvent =
+  | "track-start"
+  | "playlist-change"
+  | "soundboard-play"
+  | "discord-join"
+  | "discord-leave"
+  | "error";
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+}
+
+/** JSON body posted to a webhook */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  /** ISO 8601 time the event happened */
+  timestamp: string;
+  data: unknown;
+}
+
+/** What is currently playing for stream overlays */
+export interface NowPlaying {
+  playing: boolean;
+  track?: {
+    id: string;
+    title: string;
+  };
+  playlist?: {
+    id: string;
+    title?: string;
+  };
+  sounds: {
+    id: string;
+    title: string;
+  }[];
+}